@@ -1,9 +1,60 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import {
+  describe,
+  it,
+  expect,
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  vi,
+} from 'vitest';
 import CollectionRegistry from '../collectionRegistry.js';
+import {
+  generateCollectionComponents,
+  generateComponentHelpers,
+} from '../generators/components.js';
+import { generateCollectionInterface } from '../generators/types.js';
+import {
+  generateNuxtSEOComposable,
+  generateSEORoutes,
+  generateSEOSitemap,
+} from '../generators/seo.js';
 import {
   extractCollectionMetadata,
+  extractLocalization,
   analyzeFields,
+  generateFieldDefinitions,
+  generateNamedInterfaces,
+  generateOptionConstants,
+  collectRelationTargets,
+  collectBlocks,
+  generateBlockInterfaces,
+  generateLocalizedType,
+  generateQueryTypes,
 } from '../utils/fieldAnalyzer.js';
+import {
+  generateBlockRenderers,
+  generateCollectionClientImports,
+  generateCollectionClientMethods,
+  generateAstroRoutes,
+  generateBaseClientTemplate,
+  generateCacheTemplate,
+  generateErrorClassesTemplate,
+  generateLocaleTypes,
+  generateNuxtClientComposableTemplate,
+  generateNuxtComposablesTemplate,
+  generateNextRouteSections,
+  generateQueryHooksTemplate,
+  generateRouteSections,
+  generateSvelteKitRoutes,
+  generateVersionsClientTemplate,
+  renderTemplate,
+  TemplateError,
+} from '../utils/templateEngine.js';
 
 describe('CollectionRegistry', () => {
   let registry: CollectionRegistry;
@@ -57,14 +108,76 @@ describe('Field Analyzer', () => {
       name: 'title',
       type: 'text',
       required: true,
+      location: { file: 'collection.ts', line: 3, column: 9 },
     });
     expect(fields[1]).toEqual({
       name: 'slug',
       type: 'text',
       required: false,
+      location: { file: 'collection.ts', line: 8, column: 9 },
+    });
+  });
+
+  it('should only read fields from the fields array', () => {
+    const content = `
+      export const Posts: CollectionConfig = {
+        slug: 'posts',
+        admin: {
+          components: [{ name: 'AdminBanner', type: 'component' }],
+        },
+        fields: [
+          {
+            name: 'category',
+            type: 'select',
+            options: [
+              { label: 'News', value: 'news' },
+              { name: 'legacy', type: 'text' },
+            ],
+          },
+          {
+            name: 'summary',
+            type: 'textarea',
+            admin: { description: 'required: true is not a flag here' },
+          },
+        ],
+      };
+    `;
+
+    const fields = analyzeFields(content, 'Posts.ts');
+    expect(fields.map((f) => [f.name, f.type, f.required])).toEqual([
+      ['category', 'select', false],
+      ['summary', 'textarea', false],
+    ]);
+    expect(fields[1]?.location).toEqual({
+      file: 'Posts.ts',
+      line: 16,
+      column: 11,
     });
   });
 
+  it('should resolve spread field lists declared in the same file', () => {
+    const content = `
+      const timestamps: Field[] = [
+        { name: 'publishedAt', type: 'date', required: true },
+      ];
+
+      export default {
+        slug: 'events',
+        access: { read: () => true },
+        fields: [{ name: 'title', type: 'text' }, ...timestamps],
+      } satisfies CollectionConfig;
+    `;
+
+    const metadata = extractCollectionMetadata(content, 'Events.ts');
+    expect(metadata?.slug).toBe('events');
+    expect(metadata?.isPublic).toBe(true);
+    expect(metadata?.fields.map((f) => f.name)).toEqual([
+      'title',
+      'publishedAt',
+    ]);
+    expect(metadata?.fields[1]?.required).toBe(true);
+  });
+
   it('should extract collection metadata', () => {
     const content = `
       export const Posts: CollectionConfig = {
@@ -99,4 +212,1891 @@ describe('Field Analyzer', () => {
     expect(metadata?.hasStatus).toBe(true);
     expect(metadata?.fields).toHaveLength(3);
   });
+
+  it('should build nested field trees and flatten presentational fields', () => {
+    const content = `
+      fields: [
+        {
+          type: 'row',
+          fields: [{ name: 'title', type: 'text', required: true }],
+        },
+        {
+          type: 'tabs',
+          tabs: [
+            {
+              label: 'Content',
+              fields: [
+                {
+                  type: 'collapsible',
+                  fields: [{ name: 'body', type: 'richText' }],
+                },
+              ],
+            },
+            {
+              name: 'meta',
+              fields: [{ name: 'keywords', type: 'text' }],
+            },
+          ],
+        },
+        {
+          name: 'links',
+          type: 'array',
+          interfaceName: 'LinkRow',
+          fields: [{ name: 'url', type: 'text', required: true }],
+        },
+        {
+          name: 'seo',
+          type: 'group',
+          fields: [{ name: 'description', type: 'textarea' }],
+        },
+      ],
+    `;
+
+    const fields = analyzeFields(content);
+    expect(fields.map((f) => [f.name, f.type])).toEqual([
+      ['title', 'text'],
+      ['body', 'richText'],
+      ['meta', 'tab'],
+      ['links', 'array'],
+      ['seo', 'group'],
+    ]);
+
+    expect(generateFieldDefinitions(fields)).toBe(
+      [
+        '  title: string;',
+        '  body?: any;',
+        '  meta?: {',
+        '    keywords?: string;',
+        '  };',
+        '  links?: LinkRow[];',
+        '  seo?: {',
+        '    description?: string;',
+        '  };',
+      ].join('\n')
+    );
+    expect(generateNamedInterfaces(fields)).toBe(
+      [
+        'export interface LinkRow {',
+        '  id?: string;',
+        '  url: string;',
+        '}',
+      ].join('\n')
+    );
+  });
+
+  it('should type select and radio fields from their options', () => {
+    const content = `
+      const sizes = ['sm', 'md', 'lg'];
+
+      fields: [
+        {
+          name: 'category',
+          type: 'select',
+          hasMany: true,
+          options: [
+            { label: 'News', value: 'news' },
+            { label: 'Guides', value: 'guides' },
+          ],
+        },
+        { name: 'size', type: 'radio', required: true, options: sizes },
+        { name: 'region', type: 'select', options: getRegions() },
+      ],
+    `;
+
+    const fields = analyzeFields(content);
+    expect(fields[0]?.options).toEqual(['news', 'guides']);
+    expect(fields[2]?.options).toBeUndefined();
+
+    expect(generateFieldDefinitions(fields)).toBe(
+      [
+        '  category?: ("news" | "guides")[];',
+        '  size: "sm" | "md" | "lg";',
+        '  region?: string;',
+      ].join('\n')
+    );
+    expect(generateOptionConstants(fields, 'Posts')).toBe(
+      [
+        'export const PostsCategoryOptions = ["news", "guides"] as const;',
+        'export const PostsSizeOptions = ["sm", "md", "lg"] as const;',
+      ].join('\n')
+    );
+  });
+
+  it('should keep option constants of status and _status apart', () => {
+    const fields = analyzeFields(`
+      fields: [
+        { name: 'status', type: 'select', options: ['open', 'closed'] },
+        { name: '_status', type: 'select', options: ['draft', 'published'] },
+      ],
+    `);
+
+    expect(generateOptionConstants(fields, 'Posts')).toBe(
+      [
+        'export const PostsStatusOptions = ["open", "closed"] as const;',
+        'export const Posts_StatusOptions = ["draft", "published"] as const;',
+      ].join('\n')
+    );
+  });
+
+  it('should type relationship fields from their relationTo targets', () => {
+    const content = `
+      fields: [
+        { name: 'author', type: 'relationship', relationTo: 'users' },
+        {
+          name: 'related',
+          type: 'relationship',
+          relationTo: ['posts', 'pages'],
+          hasMany: true,
+        },
+        { name: 'vendor', type: 'relationship', relationTo: 'vendors' },
+      ],
+    `;
+
+    const fields = analyzeFields(content);
+    expect(fields[1]?.relationTo).toEqual(['posts', 'pages']);
+    expect(collectRelationTargets(fields)).toEqual([
+      'users',
+      'posts',
+      'pages',
+      'vendors',
+    ]);
+
+    const interfaces: Record<string, string> = {
+      users: 'User',
+      posts: 'Post',
+      pages: 'Page',
+    };
+    expect(
+      generateFieldDefinitions(fields, {
+        resolveRelation: (slug) => interfaces[slug],
+      })
+    ).toBe(
+      [
+        '  author?: string | User;',
+        '  related?: Array<{ relationTo: "posts"; value: string | Post } | { relationTo: "pages"; value: string | Page }>;',
+        '  vendor?: string | { id: string; [key: string]: unknown };',
+      ].join('\n')
+    );
+  });
+
+  it('should generate typed where and sort types from field paths', () => {
+    const fields = analyzeFields(`
+      fields: [
+        { name: 'title', type: 'text', required: true },
+        { name: 'views', type: 'number' },
+        { name: 'status', type: 'select', options: ['draft', 'published'] },
+        { name: 'seo', type: 'group', fields: [{ name: 'title', type: 'text' }] },
+        { name: 'links', type: 'array', fields: [{ name: 'url', type: 'text' }] },
+        { name: 'body', type: 'richText' },
+      ],
+    `);
+
+    expect(generateQueryTypes(fields, 'Posts')).toBe(
+      [
+        'export interface PostsWhereFields {',
+        '  id?: IDOperators;',
+        '  title?: TextOperators;',
+        '  views?: NumberOperators;',
+        '  status?: SelectOperators<"draft" | "published">;',
+        "  'seo.title'?: TextOperators;",
+        "  'links.url'?: TextOperators;",
+        '  body?: RichTextOperators;',
+        '  createdAt?: DateOperators;',
+        '  updatedAt?: DateOperators;',
+        '}',
+        '',
+        'export type PostsWhere = Where<PostsWhereFields>;',
+        'export type PostsSort = Sort<"id" | "title" | "views" | "status" | "seo.title" | "createdAt" | "updatedAt">;',
+        'export type PostsSelect = SelectFields<Posts>;',
+        'export type PostsQueryOptions<S extends PostsSelect = PostsSelect> = QueryOptions<PostsWhere, PostsSort, S>;',
+      ].join('\n')
+    );
+  });
+
+  it('should read blocks defined in separate files', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-blocks-'));
+    fs.mkdirSync(path.join(dir, 'blocks'));
+    fs.writeFileSync(
+      path.join(dir, 'blocks', 'Hero.ts'),
+      `export const Hero: Block = {
+        slug: 'hero',
+        fields: [{ name: 'heading', type: 'text', required: true }],
+      };`
+    );
+    fs.writeFileSync(
+      path.join(dir, 'blocks', 'index.ts'),
+      `export * from './Hero';`
+    );
+    const content = `
+      import { Hero } from './blocks';
+
+      export const Pages: CollectionConfig = {
+        slug: 'pages',
+        fields: [
+          {
+            name: 'layout',
+            type: 'blocks',
+            blocks: [
+              Hero,
+              { slug: 'quote', interfaceName: 'Quote', fields: [] },
+            ],
+          },
+        ],
+      };
+    `;
+
+    const metadata = extractCollectionMetadata(content, 'Pages.ts', {
+      filePath: path.join(dir, 'Pages.ts'),
+    });
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    const layout = metadata?.fields[0];
+    expect(layout?.blocks?.map((block) => block.slug)).toEqual([
+      'hero',
+      'quote',
+    ]);
+    expect(generateFieldDefinitions(metadata?.fields ?? [])).toBe(
+      '  layout?: Array<HeroBlock | Quote>;'
+    );
+    expect(
+      generateBlockInterfaces(collectBlocks(metadata?.fields ?? []))
+    ).toContain(
+      [
+        'export interface HeroBlock {',
+        '  id?: string;',
+        '  blockName?: string;',
+        '  blockType: "hero";',
+        '  heading: string;',
+        '}',
+      ].join('\n')
+    );
+
+    const renderers = generateBlockRenderers(metadata!);
+    expect(renderers).toContain('export function renderPagesLayoutBlocks<R>(');
+    expect(renderers).toContain('return assertNever(block);');
+  });
+});
+
+describe('Collection Clients', () => {
+  it('should generate mutations for operations that are not denied', () => {
+    const metadata = extractCollectionMetadata(
+      `
+        export const Comments: CollectionConfig = {
+          slug: 'comments',
+          access: {
+            read: () => true,
+            create: ({ req }) => Boolean(req.user),
+            delete: () => false,
+          },
+          fields: [{ name: 'body', type: 'textarea', required: true }],
+        };
+      `,
+      'Comments.ts'
+    );
+
+    expect(metadata?.access).toEqual({
+      create: 'restricted',
+      read: 'public',
+      update: 'restricted',
+      delete: 'denied',
+    });
+
+    const methods = generateCollectionClientMethods(metadata!);
+    expect(methods).toContain(
+      'async findByID<S extends CommentsSelect = CommentsSelect>('
+    );
+    expect(methods).toContain(
+      "options?: Pick<CommentsQueryOptions<S>, 'draft' | 'depth' | 'select' | 'populate' | 'locale' | 'fallbackLocale'>,\n    request?: RequestOptions\n  ): Promise<Selected<Comments, S>> {"
+    );
+    expect(methods).toContain(
+      'async create(data: CommentsInput, request?: RequestOptions)'
+    );
+    expect(methods).toContain("method: 'POST',");
+    expect(methods).toContain(
+      "}, { collection: 'comments', name: 'create' });"
+    );
+    expect(methods).toContain(
+      "request, {\n      collection: 'comments',\n      name: 'findByID',\n    });"
+    );
+    expect(methods).toContain(
+      'async updateByID(id: string, data: CommentsUpdate, request?: RequestOptions): Promise<Comments> {'
+    );
+    expect(methods).toContain("method: 'PATCH',");
+    expect(methods).not.toContain('deleteByID');
+    expect(methods).not.toContain("method: 'DELETE',");
+
+    expect(generateCollectionClientImports(metadata!)).toContain(
+      'import type { Comments, CommentsInput, CommentsUpdate, CommentsQueryOptions, CommentsSelect, CommentsWhere, PayloadBulkResponse, PayloadDocResponse, PayloadResponse, Selected }'
+    );
+  });
+
+  it('should walk every page in iterators, getAll helpers and sitemaps', () => {
+    const metadata = extractCollectionMetadata(
+      `
+        export const Posts: CollectionConfig = {
+          slug: 'posts',
+          fields: [
+            { name: 'slug', type: 'text' },
+            { name: 'state', type: 'select', options: ['draft', 'live'] },
+            { name: 'seo', type: 'group', fields: [] },
+          ],
+        };
+      `,
+      'Posts.ts',
+      { fieldMappings: { statusField: 'state' } }
+    );
+    const options = { statusValues: { published: 'live' } };
+
+    const methods = generateCollectionClientMethods(metadata!, options);
+    expect(methods).toContain(
+      'async *iteratePosts<S extends PostsSelect = PostsSelect>(\n    options?: PostsQueryOptions<S>,\n    request?: RequestOptions\n  ): AsyncGenerator<Selected<Posts, S>, void, undefined> {'
+    );
+    expect(methods).toContain(
+      'page = response.hasNextPage ? response.nextPage : null;'
+    );
+    expect(methods).toContain(
+      "options?: Omit<PostsQueryOptions<S>, 'page' | 'limit' | 'pagination'> & PaginationOptions,"
+    );
+
+    const sitemap = generateSEOSitemap(metadata!, options);
+    expect(sitemap).toContain(
+      "await client.getAllPosts({ where: { state: { equals: 'live' } } });"
+    );
+  });
+
+  it('should throw typed errors and map missing documents to 404s', () => {
+    const metadata = extractCollectionMetadata(
+      `
+        export const Posts: CollectionConfig = {
+          slug: 'posts',
+          fields: [{ name: 'slug', type: 'text' }],
+        };
+      `,
+      'Posts.ts'
+    );
+
+    const errors = generateErrorClassesTemplate();
+    expect(errors).toContain(
+      'export class ValidationError extends PayloadAPIError {'
+    );
+    expect(errors).toContain('readonly fieldErrors: Record<string, string[]>;');
+    expect(errors).toContain(
+      'export function isNotFoundError(error: unknown): error is NotFoundError {'
+    );
+    expect(errors).toContain('case 403:\n      return new ForbiddenError(');
+
+    expect(generateCollectionClientImports(metadata!)).toContain(
+      "import { NotFoundError } from './errors';"
+    );
+    expect(generateCollectionClientMethods(metadata!)).toContain(
+      'throw new NotFoundError(`Posts with slug "${slug}" not found`, {'
+    );
+
+    const route = generateRouteSections(metadata!, 'detail');
+    expect(route.imports).toContain(
+      "import { isNotFoundError } from '~/lib/clients';"
+    );
+    expect(route.loader).toContain(
+      "if (isNotFoundError(error)) {\n      throw new Response('Not Found', { status: 404 });"
+    );
+  });
+});
+
+describe('Client runtime', () => {
+  type Target = { collection: string; name: string };
+
+  // The generated base client, with its protected methods exposed
+  interface RuntimeClient {
+    get<T>(
+      path: string,
+      options?: Record<string, unknown>,
+      target?: Target
+    ): Promise<T>;
+    setToken(token: string | null): void;
+    all<T>(
+      getPage: (page: number, limit: number) => Promise<unknown>,
+      options?: { pageSize?: number; concurrency?: number }
+    ): Promise<T[]>;
+  }
+
+  let dir: string;
+  let createClient: (config: Record<string, unknown>) => RuntimeClient;
+  let MemoryCache: new (maxEntries?: number) => {
+    invalidate(tags: string[]): void;
+  };
+
+  beforeAll(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-runtime-'));
+    fs.writeFileSync(path.join(dir, 'base.ts'), generateBaseClientTemplate());
+    fs.writeFileSync(path.join(dir, 'cache.ts'), generateCacheTemplate());
+    fs.writeFileSync(
+      path.join(dir, 'errors.ts'),
+      generateErrorClassesTemplate()
+    );
+    fs.writeFileSync(
+      path.join(dir, 'harness.ts'),
+      `import { BasePayloadClient } from './base';
+
+export class TestClient extends BasePayloadClient {
+  get cache() {
+    return this.session.cache;
+  }
+
+  get(path: string, options?: any, target?: any) {
+    return this.fetch(path, options, target);
+  }
+
+  all(getPage: any, options?: any) {
+    return this.fetchAll(getPage, options);
+  }
+}`
+    );
+
+    const { TestClient } = await import(path.join(dir, 'harness.ts'));
+    createClient = (config) => new TestClient(config);
+    ({ MemoryCache } = await import(path.join(dir, 'cache.ts')));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const json = (body: unknown, init: ResponseInit = {}) =>
+    new Response(JSON.stringify(body), {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...init.headers },
+    });
+
+  // A fetch that only settles when its signal aborts
+  const hangingFetch = vi.fn(
+    (_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () =>
+          reject(init.signal?.reason)
+        );
+      })
+  );
+
+  it('should retry 5xx responses with jittered backoff and cancel their bodies', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const failed = [json({}, { status: 503 }), json({}, { status: 502 })];
+    const cancels = failed.map((response) =>
+      vi.spyOn(response.body!, 'cancel')
+    );
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(failed[0])
+      .mockResolvedValueOnce(failed[1])
+      .mockResolvedValueOnce(json({ docs: [] }));
+
+    const result = createClient({ baseUrl: 'https://cms.test', fetch }).get(
+      '/posts'
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    // Half of the 300ms base delay, then half of the doubled delay
+    await vi.advanceTimersByTimeAsync(149);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(300);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    await expect(result).resolves.toEqual({ docs: [] });
+    cancels.forEach((cancel) => expect(cancel).toHaveBeenCalled());
+  });
+
+  it('should stop after the configured retries and never retry writes', async () => {
+    vi.useFakeTimers();
+    const fetch = vi.fn(async () => json({ errors: [] }, { status: 500 }));
+    const client = createClient({
+      baseUrl: 'https://cms.test',
+      fetch,
+      retry: { retries: 1, baseDelay: 10 },
+    });
+
+    const read = expect(client.get('/posts')).rejects.toMatchObject({
+      status: 500,
+    });
+    await vi.runAllTimersAsync();
+    await read;
+    expect(fetch).toHaveBeenCalledTimes(2);
+
+    fetch.mockClear();
+    const write = expect(
+      client.get('/posts', { method: 'POST', body: '{}' })
+    ).rejects.toMatchObject({ status: 500 });
+    await vi.runAllTimersAsync();
+    await write;
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should wait for Retry-After unless it is longer than maxDelay', async () => {
+    vi.useFakeTimers();
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(
+        json({}, { status: 429, headers: { 'Retry-After': '2' } })
+      )
+      .mockResolvedValueOnce(json({ id: 1 }))
+      .mockResolvedValueOnce(
+        json({}, { status: 429, headers: { 'Retry-After': '60' } })
+      );
+    const client = createClient({ baseUrl: 'https://cms.test', fetch });
+
+    const result = client.get('/posts/1');
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual({ id: 1 });
+
+    await expect(client.get('/posts/1')).rejects.toMatchObject({
+      status: 429,
+    });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should time out requests and combine the timeout with the caller signal', async () => {
+    vi.useFakeTimers();
+    const client = createClient({
+      baseUrl: 'https://cms.test',
+      fetch: hangingFetch,
+      timeout: 1000,
+      retry: false,
+    });
+
+    const timedOut = expect(client.get('/posts')).rejects.toMatchObject({
+      name: 'TimeoutError',
+    });
+    await vi.advanceTimersByTimeAsync(1000);
+    await timedOut;
+
+    // Caller aborts reject with their reason and are not retried
+    hangingFetch.mockClear();
+    const controller = new AbortController();
+    const aborted = expect(
+      client.get('/posts', {
+        signal: controller.signal,
+        retry: { retries: 2 },
+      })
+    ).rejects.toBe('navigated away');
+    controller.abort('navigated away');
+    await aborted;
+    expect(hangingFetch).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  const posts = { collection: 'posts', name: 'getPostsList' };
+  const pages = { collection: 'pages', name: 'getPagesList' };
+
+  // A fetch answering each request with the next document version
+  const versionedFetch = (delay = 0) => {
+    let version = 0;
+    return vi.fn(async (url: string, _init?: RequestInit) => {
+      if (delay) await new Promise((resolve) => setTimeout(resolve, delay));
+      return json({ docs: [{ id: url.split('/').pop(), version: ++version }] });
+    });
+  };
+
+  it('should serve cached reads until their ttl expires', async () => {
+    vi.useFakeTimers();
+    const fetch = versionedFetch();
+    const client = createClient({
+      baseUrl: 'https://cms.test',
+      auth: 'bearer',
+      fetch,
+      cache: { ttl: 1000 },
+    });
+
+    await client.get('/posts', {}, posts);
+    await vi.advanceTimersByTimeAsync(999);
+    await client.get('/posts', {}, posts);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(client.get('/posts', {}, posts)).resolves.toMatchObject({
+      docs: [{ version: 2 }],
+    });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should serve stale reads while refreshing them once per session', async () => {
+    vi.useFakeTimers();
+    const adapter = new MemoryCache();
+    const cache = { ttl: 1000, staleWhileRevalidate: 5000, adapter };
+    const fetch = versionedFetch(100);
+    const client = createClient({
+      baseUrl: 'https://cms.test',
+      auth: 'bearer',
+      fetch,
+      cache,
+    });
+    const other = createClient({
+      baseUrl: 'https://cms.test',
+      auth: 'bearer',
+      fetch,
+      cache,
+    });
+
+    const first = client.get('/posts', {}, posts);
+    await vi.advanceTimersByTimeAsync(100);
+    await first;
+    await vi.advanceTimersByTimeAsync(1500);
+
+    // Stale: served as is, refreshed in the background once per session
+    const stale = { docs: [{ id: 'posts', version: 1 }] };
+    await expect(client.get('/posts', {}, posts)).resolves.toEqual(stale);
+    await expect(client.get('/posts', {}, posts)).resolves.toEqual(stale);
+    await expect(other.get('/posts', {}, posts)).resolves.toEqual(stale);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(client.get('/posts', {}, posts)).resolves.toMatchObject({
+      docs: [{ version: 3 }],
+    });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const fetch = versionedFetch();
+    const client = createClient({
+      baseUrl: 'https://cms.test',
+      auth: 'bearer',
+      fetch,
+      cache: { maxEntries: 2 },
+    });
+
+    await client.get('/posts/a', {}, posts);
+    await client.get('/posts/b', {}, posts);
+    await client.get('/posts/a', {}, posts);
+    await client.get('/posts/c', {}, posts);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    await client.get('/posts/a', {}, posts);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    await client.get('/posts/b', {}, posts);
+    expect(fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it('should drop entries by tag and after mutations of their collection', async () => {
+    const fetch = versionedFetch();
+    const adapter = new MemoryCache();
+    const client = createClient({
+      baseUrl: 'https://cms.test',
+      auth: 'bearer',
+      fetch,
+      cache: { adapter },
+    });
+    const read = async (path: string, target: Target) => {
+      await client.get(path, {}, target);
+      return fetch.mock.calls.length;
+    };
+
+    await read('/posts/1', posts);
+    await read('/posts/2', posts);
+    await read('/pages/1', pages);
+
+    adapter.invalidate(['posts:1']);
+    expect(await read('/posts/1', posts)).toBe(4);
+    expect(await read('/posts/2', posts)).toBe(4);
+
+    await client.get('/posts/2', { method: 'PATCH', body: '{}' }, posts);
+    expect(await read('/posts/1', posts)).toBe(6);
+    expect(await read('/posts/2', posts)).toBe(7);
+    expect(await read('/pages/1', pages)).toBe(7);
+  });
+
+  it('should only cache anonymous reads and clear the cache on auth changes', async () => {
+    const fetch = versionedFetch();
+    const client = createClient({
+      baseUrl: 'https://cms.test',
+      auth: 'bearer',
+      fetch,
+      cache: {},
+    });
+
+    await client.get('/posts', {}, posts);
+    client.setToken('token');
+    await client.get('/posts', {}, posts);
+    await client.get('/posts', {}, posts);
+    expect(fetch).toHaveBeenCalledTimes(3);
+
+    // Logging out drops what was cached before the session
+    client.setToken(null);
+    await client.get('/posts', {}, posts);
+    await client.get('/posts', {}, posts);
+    expect(fetch).toHaveBeenCalledTimes(4);
+
+    await client.get(
+      '/posts',
+      { headers: { Cookie: 'payload-token=x' } },
+      posts
+    );
+    expect(fetch).toHaveBeenCalledTimes(5);
+  });
+
+  it('should not cache reads sent with the browser cookies', async () => {
+    const fetch = versionedFetch();
+    const client = createClient({
+      baseUrl: 'https://cms.test',
+      fetch,
+      cache: {},
+    });
+
+    await client.get('/posts', {}, posts);
+    await client.get('/posts', {}, posts);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[0]?.[1]).toMatchObject({ credentials: 'include' });
+
+    await client.get('/posts', { credentials: 'omit' }, posts);
+    await client.get('/posts', { credentials: 'omit' }, posts);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should request every page once at any concurrency', async () => {
+    const client = createClient({ baseUrl: 'https://cms.test' });
+    const sequential = [[1], [2], [3], [4], [5]];
+    const expectedBatches: [number, number[][]][] = [
+      [0, sequential],
+      [1, sequential],
+      [2.5, [[1], [2, 3], [4, 5]]],
+      [3, [[1], [2, 3, 4], [5]]],
+    ];
+
+    for (const [concurrency, expected] of expectedBatches) {
+      const batches: number[][] = [];
+      let pending: number[] = [];
+      const getPage = vi.fn(async (page: number, limit: number) => {
+        pending.push(page);
+        // Pages requested together are recorded as one batch
+        await Promise.resolve();
+        if (pending.length > 0) batches.push(pending);
+        pending = [];
+        return { docs: [page * limit], totalPages: 5 };
+      });
+
+      await expect(
+        client.all(getPage, { pageSize: 10, concurrency })
+      ).resolves.toEqual([10, 20, 30, 40, 50]);
+      expect(batches).toEqual(expected);
+    }
+  });
+
+  it('should only apply defaultQuery to list reads', async () => {
+    const collectionsPath = path.join(dir, 'collections');
+    const outputPath = path.join(dir, 'generated');
+    fs.mkdirSync(collectionsPath);
+    fs.writeFileSync(
+      path.join(collectionsPath, 'Posts.ts'),
+      `export const Posts: CollectionConfig = {
+        slug: 'posts',
+        fields: [{ name: 'slug', type: 'text' }],
+      };`
+    );
+    await new CollectionRegistry({
+      collectionsPath,
+      outputPath,
+      typesPath: path.join(dir, 'payload-types.ts'),
+    }).generate();
+
+    const { createPayloadClient } = await import(
+      path.join(outputPath, 'clients/index.ts')
+    );
+    const fetch = vi.fn(async (_url: string) =>
+      json({ docs: [{ id: '1' }], doc: {} })
+    );
+    const { posts } = createPayloadClient({
+      baseUrl: 'https://cms.test',
+      fetch,
+      defaultQuery: { where: { archived: { not_equals: true } }, depth: 0 },
+    });
+    const query = (call: number) =>
+      Object.fromEntries(
+        new URL(String(fetch.mock.calls[call]?.[0])).searchParams
+      );
+    const defaults = { archived: { not_equals: true } };
+
+    await posts.getPostsList({ where: { slug: { equals: 'a' } } });
+    await posts.getAllPosts();
+    await posts.getPost('hello world');
+    await posts.findByID('1');
+    await posts.update({ slug: { equals: 'a' } }, {});
+    await posts.delete({ slug: { equals: 'a' } });
+
+    expect(query(0)).toEqual({
+      depth: '0',
+      where: JSON.stringify({ and: [defaults, { slug: { equals: 'a' } }] }),
+    });
+    expect(query(1)).toMatchObject({ where: JSON.stringify(defaults) });
+    expect(query(2)).toEqual({
+      depth: '0',
+      where: JSON.stringify({
+        and: [defaults, { slug: { equals: 'hello world' } }],
+      }),
+    });
+    expect(query(3)).toEqual({});
+    expect(query(4)).toEqual({
+      where: JSON.stringify({ slug: { equals: 'a' } }),
+    });
+    expect(query(5)).toEqual({
+      where: JSON.stringify({ slug: { equals: 'a' } }),
+    });
+  });
+
+  it('should create the shared client from the baseUrl expression on first use', async () => {
+    const collectionsPath = path.join(dir, 'shared');
+    const outputPath = path.join(dir, 'shared-generated');
+    fs.mkdirSync(collectionsPath);
+    fs.writeFileSync(
+      path.join(collectionsPath, 'Posts.ts'),
+      `export const Posts: CollectionConfig = {
+        slug: 'posts',
+        fields: [{ name: 'slug', type: 'text' }],
+      };`
+    );
+    await new CollectionRegistry({
+      collectionsPath,
+      outputPath,
+      typesPath: path.join(dir, 'payload-types.ts'),
+      baseUrl: 'process.env.REGISTRY_TEST_CMS_URL',
+    }).generate();
+
+    const { configurePayloadClient, getPayloadClient } = await import(
+      path.join(outputPath, 'payloadClient.ts')
+    );
+    expect(() => getPayloadClient()).toThrow(
+      'process.env.REGISTRY_TEST_CMS_URL is empty'
+    );
+
+    vi.stubEnv('REGISTRY_TEST_CMS_URL', 'https://cms.test');
+    const client = getPayloadClient();
+    vi.unstubAllEnvs();
+    expect(client.posts).toBeDefined();
+    expect(getPayloadClient()).toBe(client);
+
+    const configured = configurePayloadClient({
+      baseUrl: 'https://other.test',
+    });
+    expect(getPayloadClient()).toBe(configured);
+  });
+
+  it('should type-check the client of a slug-only collection', async () => {
+    const collectionsPath = path.join(dir, 'slug-only');
+    const outputPath = path.join(dir, 'slug-only-generated');
+    fs.mkdirSync(collectionsPath);
+    fs.writeFileSync(
+      path.join(collectionsPath, 'Categories.ts'),
+      `export const Categories: CollectionConfig = {
+        slug: 'categories',
+        fields: [
+          { name: 'name', type: 'text', required: true },
+          { name: 'slug', type: 'text', required: true },
+        ],
+      };`
+    );
+    await new CollectionRegistry({
+      collectionsPath,
+      outputPath,
+      typesPath: path.join(dir, 'payload-types.ts'),
+    }).generate();
+
+    const program = ts.createProgram(
+      [path.join(outputPath, 'clients/index.ts')],
+      {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        lib: ['lib.es2022.d.ts', 'lib.dom.d.ts'],
+      }
+    );
+    const errors = ts
+      .getPreEmitDiagnostics(program)
+      .map(({ messageText }) =>
+        ts.flattenDiagnosticMessageText(messageText, '\n')
+      );
+    expect(errors).toEqual([]);
+  });
+});
+
+describe('Auth Collections', () => {
+  it('should detect auth collections and generate session methods', () => {
+    const metadata = extractCollectionMetadata(
+      `
+        export const Customers: CollectionConfig = {
+          slug: 'customers',
+          auth: { verify: true },
+          fields: [{ name: 'name', type: 'text' }],
+        };
+      `,
+      'Customers.ts'
+    );
+
+    expect(metadata?.isAuth).toBe(true);
+    expect(metadata?.fields.map((field) => field.name)).toEqual([
+      'email',
+      'name',
+    ]);
+
+    const methods = generateCollectionClientMethods(metadata!);
+    for (const method of [
+      'login(credentials: { email: string; password: string }, request?: RequestOptions): Promise<LoginResponse<Customers>>',
+      'logout(request?: RequestOptions): Promise<MessageResponse>',
+      'me(request?: RequestOptions): Promise<MeResponse<Customers>>',
+      'refreshToken(request?: RequestOptions): Promise<RefreshTokenResponse<Customers>>',
+      'forgotPassword(email: string, request?: RequestOptions): Promise<MessageResponse>',
+      'resetPassword(token: string, password: string, request?: RequestOptions)',
+      'verifyEmail(token: string, request?: RequestOptions): Promise<MessageResponse>',
+    ]) {
+      expect(methods).toContain(`async ${method}`);
+    }
+    expect(methods).toContain('`/customers/refresh-token`');
+    expect(methods).toContain('this.setToken(response.refreshedToken);');
+  });
+
+  it('should leave collections without auth unchanged', () => {
+    const metadata = extractCollectionMetadata(
+      `export const Posts: CollectionConfig = { slug: 'posts', auth: false, fields: [] };`,
+      'Posts.ts'
+    );
+
+    expect(metadata?.isAuth).toBe(false);
+    expect(metadata?.fields).toEqual([]);
+    expect(generateCollectionClientMethods(metadata!)).not.toContain('login');
+  });
+});
+
+describe('Field Mappings', () => {
+  const content = `
+    export const Articles: CollectionConfig = {
+      slug: 'articles',
+      fields: [
+        { name: 'urlSlug', type: 'text', required: true },
+        { name: 'publishStatus', type: 'select', options: statusOptions },
+        { name: 'showInMenu', type: 'checkbox' },
+      ],
+    };
+  `;
+
+  it('should detect patterns on mapped field names', () => {
+    const metadata = extractCollectionMetadata(content, 'Articles.ts', {
+      fieldMappings: {
+        slugField: 'urlSlug',
+        statusField: 'publishStatus',
+        navigationField: 'showInMenu',
+      },
+    });
+
+    expect(metadata?.hasSlug).toBe(true);
+    expect(metadata?.hasStatus).toBe(true);
+    expect(metadata?.hasNavigation).toBe(true);
+    expect(metadata?.fieldMappings.seoField).toBe('seo');
+
+    expect(
+      generateFieldDefinitions(metadata?.fields.slice(1, 2) ?? [], {
+        statusField: 'publishStatus',
+        statusValues: { draft: 'draft', published: 'live' },
+      })
+    ).toBe('  publishStatus?: "draft" | "live" | "scheduled" | "archived";');
+  });
+
+  it('should only type status fields from configured status values', () => {
+    const metadata = extractCollectionMetadata(
+      `
+        export const Posts: CollectionConfig = {
+          slug: 'posts',
+          fields: [{ name: 'status', type: 'select', options: statusOptions }],
+        };
+      `,
+      'Posts.ts'
+    )!;
+
+    expect(generateCollectionInterface(metadata)).toContain(
+      '  status?: "draft" | "published";'
+    );
+    expect(
+      generateCollectionInterface(metadata, {
+        statusValues: { draft: 'pending', published: 'live' },
+      })
+    ).toContain('  status?: "pending" | "live" | "scheduled" | "archived";');
+    expect(
+      generateCollectionInterface(metadata, {
+        statusValues: { published: 'live' },
+      })
+    ).toContain('  status?: "draft" | "live" | "scheduled" | "archived";');
+  });
+
+  it('should query mapped fields and status values in client methods', () => {
+    const metadata = extractCollectionMetadata(content, 'Articles.ts', {
+      fieldMappings: {
+        slugField: 'urlSlug',
+        statusField: 'publishStatus',
+        navigationField: 'showInMenu',
+      },
+    });
+
+    const methods = generateCollectionClientMethods(metadata!, {
+      statusValues: { published: 'live' },
+    });
+    expect(methods).toContain(
+      '{ where: { urlSlug: { equals: slug } }, draft },'
+    );
+    expect(methods).toContain("publishStatus: { equals: 'live' },");
+    expect(methods).toContain('showInMenu: { equals: true },');
+    expect(methods).not.toContain("status: { equals: 'published' }");
+  });
+
+  it('should keep the default field names without mappings', () => {
+    const metadata = extractCollectionMetadata(content, 'Articles.ts');
+    expect(metadata?.hasSlug).toBe(false);
+    expect(metadata?.hasStatus).toBe(false);
+  });
+});
+
+describe('Localization', () => {
+  const metadata = extractCollectionMetadata(
+    `
+      export const Posts: CollectionConfig = {
+        slug: 'posts',
+        fields: [
+          { name: 'title', type: 'text', localized: true },
+          { name: 'slug', type: 'text' },
+          { name: 'seo', type: 'group', fields: [] },
+        ],
+      };
+    `,
+    'Posts.ts'
+  )!;
+
+  it('should read locales from the Payload config', () => {
+    const localization = extractLocalization(
+      `
+        export default buildConfig({
+          localization: {
+            locales: ['en', { code: 'fr', label: 'French' }],
+            defaultLocale: 'en',
+          },
+        });
+      `,
+      'payload.config.ts'
+    );
+
+    expect(localization).toEqual({
+      locales: ['en', 'fr'],
+      defaultLocale: 'en',
+    });
+    expect(generateLocaleTypes(localization)).toContain(
+      'export const LOCALES = ["en", "fr"] as const;'
+    );
+    expect(generateLocaleTypes(null)).toContain('export type Locale = string;');
+    expect(
+      extractLocalization(
+        'export default buildConfig({});',
+        'payload.config.ts'
+      )
+    ).toBeNull();
+  });
+
+  it('should generate localized types, routes and hreflang alternates', () => {
+    expect(metadata.isLocalized).toBe(true);
+    expect(metadata.fields[0]?.localized).toBe(true);
+    expect(generateLocalizedType(metadata.fields, 'Posts')).toBe(
+      'export type PostsLocalized = Localized<Posts, "title">;'
+    );
+
+    const route = generateRouteSections(metadata, 'detail', {
+      localized: true,
+    });
+    expect(route.loader).toContain('if (!isLocale(params.lang)) {');
+    expect(route.loader).toContain(
+      'getPayloadClient().posts.getPost(params.slug, false, { locale: params.lang })'
+    );
+
+    const seo = generateSEORoutes(metadata, { localized: true });
+    expect(seo).toContain(
+      "import { DEFAULT_LOCALE, LOCALES } from '../types';"
+    );
+    expect(seo).toContain(
+      'getPostsAlternateLinks(`/posts/${posts.slug}`, baseUrl)'
+    );
+    expect(generateSEORoutes(metadata)).not.toContain('hreflang');
+  });
+});
+
+describe('Versions', () => {
+  it('should filter drafts collections on _status and add a versions client', () => {
+    const metadata = extractCollectionMetadata(
+      `
+        export const Pages: CollectionConfig = {
+          slug: 'pages',
+          versions: {
+            drafts: { autosave: { interval: 375 }, schedulePublish: true },
+            maxPerDoc: 20,
+          },
+          fields: [{ name: 'title', type: 'text' }],
+        };
+      `,
+      'Pages.ts'
+    )!;
+
+    expect(metadata.versions).toEqual({
+      drafts: true,
+      autosave: true,
+      schedulePublish: true,
+      maxPerDoc: 20,
+    });
+    expect(metadata.hasStatus).toBe(true);
+    expect(metadata.fields.map((field) => field.name)).toContain('_status');
+
+    const methods = generateCollectionClientMethods(metadata, {
+      statusValues: { published: 'live' },
+    });
+    expect(methods).toContain("_status: { equals: 'published' },");
+    expect(methods).toContain(
+      "readonly versions = new VersionsClient<Pages>('pages', this.config, this.session);"
+    );
+    expect(methods).toContain(
+      'return this.findByID(id, { ...options, draft: true }, request);'
+    );
+    expect(generateCollectionClientImports(metadata)).toContain(
+      "import { VersionsClient } from './versions';"
+    );
+    expect(generateVersionsClientTemplate()).toContain(
+      'async restoreVersion(id: string, request?: RequestOptions): Promise<T> {'
+    );
+
+    const versionsOnly = extractCollectionMetadata(
+      `export const Posts: CollectionConfig = { slug: 'posts', versions: true, fields: [] };`,
+      'Posts.ts'
+    )!;
+    expect(versionsOnly.versions?.drafts).toBe(false);
+    expect(versionsOnly.hasStatus).toBe(false);
+    expect(generateCollectionClientMethods(versionsOnly)).not.toContain(
+      'findDraftByID'
+    );
+  });
+});
+
+describe('Uploads', () => {
+  it('should type upload collections and the fields that reference them', () => {
+    const documents = extractCollectionMetadata(
+      `
+        export const Documents: CollectionConfig = {
+          slug: 'documents',
+          upload: {
+            mimeTypes: ['application/pdf'],
+            focalPoint: false,
+            imageSizes: [{ name: 'preview', width: 400 }],
+          },
+          fields: [{ name: 'title', type: 'text' }],
+        };
+      `,
+      'Documents.ts'
+    )!;
+
+    expect(documents.upload).toEqual({
+      imageSizes: ['preview'],
+      focalPoint: false,
+      mimeTypes: ['application/pdf'],
+    });
+    const fieldNames = documents.fields.map((field) => field.name);
+    expect(fieldNames).toEqual(
+      expect.arrayContaining(['url', 'filename', 'mimeType', 'sizes'])
+    );
+    expect(fieldNames).not.toContain('focalX');
+    expect(generateNamedInterfaces(documents.fields)).toContain(
+      'export interface DocumentSize {'
+    );
+    expect(generateFieldDefinitions(documents.fields)).toContain(
+      '  sizes?: {\n    preview?: DocumentSize;\n  };'
+    );
+
+    const resolveRelation = (slug: string) =>
+      slug === 'documents' ? 'Documents' : undefined;
+    expect(
+      generateFieldDefinitions(
+        [
+          {
+            name: 'files',
+            type: 'upload',
+            required: false,
+            relationTo: 'documents',
+            hasMany: true,
+          },
+          {
+            name: 'image',
+            type: 'upload',
+            required: true,
+            relationTo: 'images',
+          },
+        ],
+        { resolveRelation }
+      )
+    ).toBe('  files?: Array<string | Documents>;\n  image: string | Media;');
+
+    expect(
+      extractCollectionMetadata(
+        `export const Media: CollectionConfig = { slug: 'media', upload: true, fields: [] };`,
+        'Media.ts'
+      )?.upload
+    ).toEqual({ imageSizes: [], focalPoint: true, mimeTypes: [] });
+  });
+});
+
+describe('Next.js App Router', () => {
+  it('should write server component pages instead of React Router routes', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-next-'));
+    const collectionsPath = path.join(dir, 'collections');
+    const outputPath = path.join(dir, 'generated');
+    fs.mkdirSync(collectionsPath);
+    fs.writeFileSync(
+      path.join(collectionsPath, 'Posts.ts'),
+      `
+        export const Posts: CollectionConfig = {
+          slug: 'posts',
+          versions: { drafts: true },
+          fields: [
+            { name: 'title', type: 'text', required: true },
+            { name: 'slug', type: 'text', required: true },
+            { name: 'excerpt', type: 'textarea' },
+          ],
+        };
+      `
+    );
+
+    await new CollectionRegistry({
+      collectionsPath,
+      outputPath,
+      typesPath: path.join(dir, 'payload-types.ts'),
+      framework: 'next-app',
+    }).generate();
+
+    const read = (file: string) =>
+      fs.readFileSync(path.join(outputPath, file), 'utf-8');
+    const indexPage = read('app/posts/page.tsx');
+    const detailPage = read('app/posts/[slug]/page.tsx');
+    const hasRoutes = fs.existsSync(path.join(outputPath, 'routes'));
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(hasRoutes).toBe(false);
+    expect(indexPage).toContain(
+      'const posts = await getPayloadClient().posts.getPublishedPosts({}, cacheOptions);'
+    );
+    expect(indexPage).toContain('export const metadata: Metadata = {');
+    expect(detailPage).toContain('export const revalidate = 60;');
+    expect(detailPage).toContain(
+      "const cacheOptions = { next: { revalidate, tags: [getCacheTag('posts')] } };"
+    );
+    expect(detailPage).toContain(
+      "getPayloadClient().posts.getAllPosts({ where: { _status: { equals: 'published' } }, select: { slug: true } }, cacheOptions);"
+    );
+    expect(detailPage).toContain(
+      'export async function generateMetadata({ params }: PageProps): Promise<Metadata> {'
+    );
+    expect(detailPage).toContain('if (isNotFoundError(error)) notFound();');
+  });
+
+  it('should name variables and titles of any collection', () => {
+    const blogPosts = extractCollectionMetadata(
+      `
+        export const BlogPosts: CollectionConfig = {
+          slug: 'blog-posts',
+          fields: [
+            { name: 'name', type: 'text', required: true },
+            { name: 'slug', type: 'text', required: true },
+          ],
+        };
+      `,
+      'BlogPosts.ts'
+    )!;
+
+    const index = generateNextRouteSections(blogPosts, 'index');
+    const detail = generateNextRouteSections(blogPosts, 'detail');
+    expect(blogPosts.titleField).toBe('name');
+    expect(index.component).toContain(
+      'const blogPosts = (await getPayloadClient().blogPosts.getBlogPostsList({}, cacheOptions)).docs;'
+    );
+    expect(index.component).toContain('{blogPosts.map((blogPost) => (');
+    expect(index.component).toContain('{blogPost.name}');
+    expect(detail.meta).toContain('title: `${blogPost.name} - My App`,');
+    expect(detail.loader).toContain(
+      'return blogPosts.map((blogPost) => ({ slug: blogPost.slug }));'
+    );
+    expect(
+      [...Object.values(index), ...Object.values(detail)].join('\n')
+    ).not.toContain('.title');
+  });
+});
+
+describe('Query hooks', () => {
+  it('should generate query keys, query options and hooks', () => {
+    const posts = extractCollectionMetadata(
+      `
+        export const Posts: CollectionConfig = {
+          slug: 'posts',
+          access: { delete: () => false },
+          fields: [
+            { name: 'title', type: 'text', required: true },
+            { name: 'slug', type: 'text', required: true },
+            { name: 'status', type: 'select', options: ['draft', 'published'] },
+          ],
+        };
+      `,
+      'Posts.ts'
+    )!;
+
+    const hooks = generateQueryHooksTemplate(posts);
+    expect(hooks).toContain(
+      '  detail: (slug: string, draft = false) => [...postsKeys.details(), slug, { draft }] as const,'
+    );
+    expect(hooks).toContain(
+      'queryFn: ({ signal }) => client.getPublishedPosts(options, { ...request, signal }),'
+    );
+    expect(hooks).toContain(
+      'export function createPostsQueries(client: PostsClient) {'
+    );
+    expect(hooks).toContain(
+      'return createPostsQueries(usePayloadClient().posts);'
+    );
+    expect(hooks).not.toContain('getPayloadClient');
+    expect(hooks).toContain('export function usePostsList<');
+    expect(hooks).toContain(
+      'export function usePost(slug: string, draft = false, request?: RequestOptions) {'
+    );
+    expect(hooks).toContain(
+      'onSuccess: () => queryClient.invalidateQueries({ queryKey: postsKeys.lists() }),'
+    );
+    expect(hooks).toContain('export function useUpdatePost() {');
+    expect(hooks).not.toContain('useDeletePost');
+  });
+});
+
+describe('Nuxt', () => {
+  it('should generate useAsyncData composables and useSeoMeta wiring', () => {
+    const pages = extractCollectionMetadata(
+      `
+        export const Pages: CollectionConfig = {
+          slug: 'pages',
+          fields: [
+            { name: 'title', type: 'text', required: true },
+            { name: 'slug', type: 'text', required: true },
+            {
+              name: 'seo',
+              type: 'group',
+              fields: [
+                { name: 'description', type: 'textarea' },
+                { name: 'image', type: 'upload', relationTo: 'media' },
+                { name: 'noIndex', type: 'checkbox' },
+              ],
+            },
+          ],
+        };
+      `,
+      'Pages.ts'
+    )!;
+
+    const composables = generateNuxtComposablesTemplate(pages);
+    expect(composables).toContain("import { useAsyncData } from '#imports';");
+    expect(composables).toContain(
+      'export function usePageBySlug(slug: MaybeRefOrGetter<string>, draft = false, request?: RequestOptions) {'
+    );
+    expect(composables).toContain(
+      "() => `pages:slug:${toValue(slug)}${draft ? ':draft' : ''}`,"
+    );
+    expect(composables).not.toContain('usePublishedPages');
+    expect(composables).toContain('  const client = usePayloadClient().pages;');
+    expect(composables).not.toContain('payloadClient');
+
+    const client = generateNuxtClientComposableTemplate();
+    expect(client).toContain('const nuxtApp = useNuxtApp();');
+    expect(client).toContain(
+      'const { payloadBaseUrl } = useRuntimeConfig().public;'
+    );
+    expect(client).not.toContain('process.env');
+
+    const seo = generateNuxtSEOComposable(pages);
+    expect(seo).toContain('export function usePagesSeoMeta(');
+    expect(seo).toContain('    title: () => doc()?.title,');
+    expect(seo).toContain('    description: () => seo()?.description,');
+    expect(seo).toContain('      const image = seo()?.image;');
+    expect(seo).toContain(
+      "    robots: () => (seo()?.noIndex ? 'noindex, nofollow' : undefined),"
+    );
+  });
+});
+
+describe('Components', () => {
+  const posts = extractCollectionMetadata(
+    `
+      export const Posts: CollectionConfig = {
+        slug: 'posts',
+        fields: [
+          { name: 'title', type: 'text', required: true },
+          { name: 'slug', type: 'text', required: true },
+          { name: 'author', type: 'relationship', relationTo: 'users' },
+          { name: 'tags', type: 'select', hasMany: true, options: ['news', 'guides'] },
+        ],
+      };
+    `,
+    'Posts.ts'
+  )!;
+
+  it('should only render the fields a collection has', () => {
+    const files = generateCollectionComponents(posts);
+    const content = (file: string) =>
+      files.find(({ path }) => path === file)?.content ?? '';
+
+    expect(files.map(({ path }) => path)).toEqual([
+      'PostCard.tsx',
+      'PostsList.tsx',
+      'PostDetail.tsx',
+      'index.ts',
+    ]);
+    expect(content('PostCard.tsx')).toContain(
+      'export function PostCard({ post, href = `/posts/${post.slug}` }: PostCardProps) {'
+    );
+    expect(content('PostCard.tsx')).toContain(
+      "{post.author && <p className='text-sm text-gray-700'>By {getLabel(post.author)}</p>}"
+    );
+    expect(content('PostCard.tsx')).toContain(
+      "import { getLabel } from '../getLabel';"
+    );
+    expect(content('PostCard.tsx')).not.toContain('function getLabel');
+    expect(content('PostCard.tsx')).toContain(
+      '{post.tags.map((tag, index) => ('
+    );
+    expect(content('PostCard.tsx')).toContain('<li key={index} className=');
+    expect(content('PostCard.tsx')).not.toContain('featuredImage');
+    expect(content('PostCard.tsx')).not.toContain('excerpt');
+    expect(content('PostsList.tsx')).toContain(
+      '<PostCard key={post.id} post={post} href={getHref?.(post)} />'
+    );
+    expect(generateComponentHelpers()).toContain(
+      'export function getLabel(value: string | { id: string }): string {'
+    );
+  });
+
+  it('should name components of already plural slugs', () => {
+    const documents = extractCollectionMetadata(
+      `
+        export const Documents: CollectionConfig = {
+          slug: 'documents',
+          fields: [{ name: 'title', type: 'text', required: true }],
+        };
+      `,
+      'Documents.ts'
+    )!;
+    const articles = extractCollectionMetadata(
+      `
+        export const Articles: CollectionConfig = {
+          slug: 'articles',
+          fields: [{ name: 'title', type: 'text', required: true }],
+        };
+      `,
+      'Articles.ts'
+    )!;
+
+    expect(documents.pluralName).toBe('Documents');
+    expect(
+      generateCollectionComponents(documents).map(({ path }) => path)
+    ).toEqual([
+      'DocumentCard.tsx',
+      'DocumentsList.tsx',
+      'DocumentDetail.tsx',
+      'index.ts',
+    ]);
+    expect(
+      generateCollectionComponents(articles).map(({ path }) => path)
+    ).toEqual([
+      'ArticleCard.tsx',
+      'ArticlesList.tsx',
+      'ArticleDetail.tsx',
+      'index.ts',
+    ]);
+  });
+
+  it('should support CSS modules and unstyled output', () => {
+    const cssModules = generateCollectionComponents(posts, 'css-modules');
+    const stylesheet = cssModules.find(
+      ({ path }) => path === 'posts.module.css'
+    );
+    expect(stylesheet?.content).toContain('.card {\n  overflow: hidden;');
+    expect(cssModules[2]?.content).toContain(
+      "import styles from './posts.module.css';"
+    );
+    expect(cssModules[2]?.content).toContain(
+      '<h1 className={styles.detailTitle}>{post.title}</h1>'
+    );
+
+    const unstyled = generateCollectionComponents(posts, 'unstyled');
+    expect(unstyled.map(({ content }) => content).join('')).not.toContain(
+      'className'
+    );
+  });
+});
+
+describe('Route targets', () => {
+  const posts = extractCollectionMetadata(
+    `
+      export const Posts: CollectionConfig = {
+        slug: 'posts',
+        fields: [
+          { name: 'title', type: 'text', required: true },
+          { name: 'slug', type: 'text', required: true },
+          { name: 'status', type: 'select', options: ['draft', 'published'] },
+        ],
+      };
+    `,
+    'Posts.ts'
+  )!;
+
+  it('should generate SvelteKit load functions and views', () => {
+    const files = generateSvelteKitRoutes(posts);
+
+    expect(files.map((file) => file.path)).toEqual([
+      'routes/posts/+page.server.ts',
+      'routes/posts/+page.svelte',
+      'routes/posts/[slug]/+page.server.ts',
+      'routes/posts/[slug]/+page.svelte',
+    ]);
+    expect(files[0]?.content).toContain(
+      'const posts = await getPayloadClient().posts.getPublishedPosts();'
+    );
+    expect(files[1]?.content).toContain('{#each data.posts as post (post.id)}');
+    expect(files[2]?.content).toContain(
+      "if (isNotFoundError(err)) error(404, 'Posts not found');"
+    );
+  });
+
+  it('should generate Astro pages with getStaticPaths', () => {
+    const [index, detail] = generateAstroRoutes(posts, {
+      statusValues: { published: 'live' },
+    });
+
+    expect(index?.path).toBe('pages/posts/index.astro');
+    expect(detail?.path).toBe('pages/posts/[slug].astro');
+    expect(detail?.content).toContain(
+      "await getPayloadClient().posts.getAllPosts({ where: { status: { equals: 'live' } } });"
+    );
+    expect(detail?.content).toContain(
+      'return posts.map((post) => ({ params: { slug: post.slug }, props: { post } }));'
+    );
+  });
+
+  it('should name variables and titles of any collection', () => {
+    const blogPosts = extractCollectionMetadata(
+      `
+        export const BlogPosts: CollectionConfig = {
+          slug: 'blog-posts',
+          fields: [
+            { name: 'name', type: 'text', required: true },
+            { name: 'slug', type: 'text', required: true },
+          ],
+        };
+      `,
+      'BlogPosts.ts'
+    )!;
+
+    const svelteKit = generateSvelteKitRoutes(blogPosts);
+    const astro = generateAstroRoutes(blogPosts);
+    expect(svelteKit[0]?.content).toContain('return { blogPosts };');
+    expect(svelteKit[1]?.content).toContain(
+      '{#each data.blogPosts as blogPost (blogPost.id)}'
+    );
+    expect(svelteKit[3]?.content).toContain(
+      '<title>{data.blogPost.name} - My App</title>'
+    );
+    expect(astro[1]?.content).toContain(
+      'return blogPosts.map((blogPost) => ({ params: { slug: blogPost.slug }, props: { blogPost } }));'
+    );
+    expect(astro[1]?.content).toContain('{blogPost.name}</h1>');
+    expect(
+      [...svelteKit, ...astro].map(({ content }) => content).join('\n')
+    ).not.toContain('.title');
+  });
+
+  it('should only write React SEO hooks for React frameworks', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-targets-'));
+    const collectionsPath = path.join(dir, 'collections');
+    fs.mkdirSync(collectionsPath);
+    fs.writeFileSync(
+      path.join(collectionsPath, 'Posts.ts'),
+      `export const Posts: CollectionConfig = {
+        slug: 'posts',
+        fields: [
+          { name: 'slug', type: 'text' },
+          { name: 'seo', type: 'group', fields: [{ name: 'title', type: 'text' }] },
+        ],
+      };`
+    );
+
+    const hooks: Record<string, boolean> = {};
+    for (const framework of [
+      'react-router',
+      'next-app',
+      'sveltekit',
+      'astro',
+    ] as const) {
+      const outputPath = path.join(dir, framework);
+      await new CollectionRegistry({
+        collectionsPath,
+        outputPath,
+        typesPath: path.join(dir, 'payload-types.ts'),
+        framework,
+      }).generate();
+      hooks[framework] = fs.existsSync(
+        path.join(outputPath, 'hooks/usePostsSEO.ts')
+      );
+      expect(fs.existsSync(path.join(outputPath, 'seo/posts.ts'))).toBe(true);
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(hooks).toEqual({
+      'react-router': true,
+      'next-app': true,
+      sveltekit: false,
+      astro: false,
+    });
+  });
+});
+
+describe('Globals', () => {
+  it('should generate a type and client per global', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-globals-'));
+    const collectionsPath = path.join(dir, 'collections');
+    const globalsPath = path.join(dir, 'globals');
+    const outputPath = path.join(dir, 'generated');
+    fs.mkdirSync(collectionsPath);
+    fs.mkdirSync(globalsPath);
+    fs.writeFileSync(
+      path.join(globalsPath, 'SiteSettings.ts'),
+      `
+        export const SiteSettings: GlobalConfig = {
+          slug: 'site-settings',
+          fields: [{ name: 'siteName', type: 'text', required: true }],
+        };
+      `
+    );
+    fs.writeFileSync(
+      path.join(globalsPath, 'Header.ts'),
+      `
+        export const Header: GlobalConfig = {
+          slug: 'header',
+          access: { update: () => false },
+          fields: [{ name: 'links', type: 'array', fields: [] }],
+        };
+      `
+    );
+
+    await new CollectionRegistry({
+      collectionsPath,
+      globalsPath,
+      outputPath,
+      typesPath: path.join(dir, 'payload-types.ts'),
+    }).generate();
+
+    const read = (file: string) =>
+      fs.readFileSync(path.join(outputPath, file), 'utf-8');
+    const siteSettingsTypes = read('types/site-settings.ts');
+    const siteSettingsClient = read('clients/site-settings.ts');
+    const headerClient = read('clients/header.ts');
+    const clientIndex = read('clients/index.ts');
+    const typesIndex = read('types.ts');
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(siteSettingsTypes).toContain('  siteName: string;');
+    expect(siteSettingsTypes).not.toContain('socialMedia');
+    expect(siteSettingsClient).toContain(
+      'export class SiteSettingsClient extends BasePayloadClient {'
+    );
+    expect(siteSettingsClient).toContain(
+      '`/globals/site-settings?${params.toString()}`'
+    );
+    expect(siteSettingsClient).toContain(
+      'async update(data: SiteSettingsUpdate, request?: RequestOptions): Promise<SiteSettings> {'
+    );
+    expect(headerClient).toContain('async get(');
+    expect(headerClient).not.toContain('async update(');
+    expect(clientIndex).toContain(
+      "export type GlobalSlug = 'header' | 'site-settings';"
+    );
+    expect(clientIndex).toContain(
+      '    siteSettings: new SiteSettingsClient(config, session),'
+    );
+    expect(typesIndex).toContain("export * from './types/header';");
+  });
+});
+
+describe('Templates', () => {
+  it('should render values, blocks and partials', () => {
+    const template = [
+      'export interface {{displayName}} {',
+      '{{#each fields}}',
+      '  {{name}}{{#unless required}}?{{/unless}}: {{tsType}};{{#if @last}} // {{slug}}{{/if}}',
+      '{{/each}}',
+      '}',
+      '{{> footer}} \\{{ literal }}',
+    ].join('\n');
+
+    const output = renderTemplate(
+      template,
+      {
+        slug: 'posts',
+        displayName: 'Posts',
+        fields: [
+          { name: 'title', tsType: 'string', required: true },
+          { name: 'views', tsType: 'number', required: false },
+        ],
+      },
+      { footer: 'style={{ width: 1 }}' }
+    );
+
+    expect(output).toBe(
+      [
+        'export interface Posts {',
+        '  title: string;',
+        '  views?: number; // posts',
+        '}',
+        'style={{ width: 1 }} {{ literal }}',
+      ].join('\n')
+    );
+    expect(() => renderTemplate('{{#if a}}', {})).toThrow(TemplateError);
+    expect(() => renderTemplate('{{> missing}}', {})).toThrow(
+      'Unknown partial "missing"'
+    );
+  });
+
+  it('should load template files and section overrides', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-templates-'));
+    const collectionsPath = path.join(dir, 'collections');
+    const outputPath = path.join(dir, 'generated');
+    fs.mkdirSync(collectionsPath);
+    fs.writeFileSync(
+      path.join(collectionsPath, 'Posts.ts'),
+      `export const Posts: CollectionConfig = {
+        slug: 'posts',
+        fields: [
+          { name: 'title', type: 'text', required: true },
+          { name: 'slug', type: 'text' },
+        ],
+      };`
+    );
+    const typeTemplatePath = path.join(dir, 'collection-type.hbs');
+    fs.writeFileSync(
+      typeTemplatePath,
+      'export type {{displayName}}Fields = {{#each fields}}"{{name}}"{{#unless @last}} | {{/unless}}{{/each}};\n'
+    );
+
+    const templateRegistry = new CollectionRegistry({
+      collectionsPath,
+      outputPath,
+      typesPath: path.join(dir, 'payload-types.ts'),
+      templates: {
+        collectionType: typeTemplatePath,
+        sections: {
+          apiClient: {
+            imports: "{{> default}}\nimport { retry } from './retry';",
+          },
+          routes: {
+            meta: '// {{routeType}} route for {{config.baseUrl}}',
+          },
+        },
+      },
+    });
+    await templateRegistry.generate();
+
+    const read = (file: string) =>
+      fs.readFileSync(path.join(outputPath, file), 'utf-8');
+    const typeFile = read('types/posts.ts');
+    const clientFile = read('clients/posts.ts');
+    const indexRoute = read('routes/posts._index.tsx');
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(typeFile).toBe('export type PostsFields = "title" | "slug";\n');
+    expect(clientFile).toContain('export class PostsClient');
+    expect(clientFile).toContain(
+      "import { NotFoundError } from './errors';\nimport { retry } from './retry';"
+    );
+    expect(indexRoute).toContain('// index route for process.env.CMS_API_URL');
+    expect(indexRoute).toContain('export async function loader()');
+    expect(indexRoute).not.toContain('export const meta');
+  });
+
+  it('should generate clients bound to an injected config', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'registry-clients-'));
+    const collectionsPath = path.join(dir, 'collections');
+    const outputPath = path.join(dir, 'generated');
+    fs.mkdirSync(collectionsPath);
+    fs.writeFileSync(
+      path.join(collectionsPath, 'Posts.ts'),
+      `export const Posts: CollectionConfig = { slug: 'posts', fields: [] };`
+    );
+
+    const config = {
+      collectionsPath,
+      outputPath,
+      typesPath: path.join(dir, 'payload-types.ts'),
+      baseUrl: 'import.meta.env.VITE_CMS_URL',
+    };
+    const read = (file: string) =>
+      fs.readFileSync(path.join(outputPath, file), 'utf-8');
+
+    await new CollectionRegistry(config).generate();
+    const baseClient = read('clients/base.ts');
+    const clientIndex = read('clients/index.ts');
+    const postsClient = read('clients/posts.ts');
+    const sharedClient = read('payloadClient.ts');
+    const errors = read('clients/errors.ts');
+    const cache = read('clients/cache.ts');
+
+    await new CollectionRegistry({ ...config, singletons: true }).generate();
+    const mainClient = read('payloadClient.ts');
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(baseClient).not.toContain("from '../env'");
+    expect(baseClient).toContain('export interface PayloadClientConfig {');
+    expect(baseClient).toContain('retry?: RetryOptions | false;');
+    expect(baseClient).toContain("response.headers.get('Retry-After')");
+    expect(baseClient).toContain(
+      'throw await createPayloadError(response, url);'
+    );
+    expect(errors).toContain('export class PayloadAPIError extends Error {');
+    expect(cache).toContain(
+      'export class MemoryCache implements CacheAdapter {'
+    );
+    expect(baseClient).toContain('cache?: CacheOptions;');
+    expect(clientIndex).toContain("export type CollectionSlug = 'posts';");
+    expect(clientIndex).toContain(
+      'await session.cache?.invalidate([getCacheTag(collection, id)]);'
+    );
+    expect(mainClient).toContain(
+      'export const invalidate = payload.invalidate;'
+    );
+    expect(postsClient).not.toContain('new PostsClient(');
+    expect(clientIndex).toContain(
+      'export function createPayloadClient(config: PayloadClientConfig) {'
+    );
+    expect(clientIndex).toContain(
+      '    posts: new PostsClient(config, session),'
+    );
+    expect(sharedClient).toContain(
+      'export function getPayloadClient(): PayloadClient {'
+    );
+    expect(sharedClient).toContain(
+      '    const baseUrl = import.meta.env.VITE_CMS_URL;\n    if (!baseUrl) {'
+    );
+    expect(sharedClient).not.toContain('export const payload =');
+
+    expect(mainClient).toContain('export const payload = getPayloadClient();');
+    expect(mainClient).toContain('export const postsClient = payload.posts;');
+  });
 });
@@ -8,8 +8,15 @@
  *
  * Options:
  *   --collections-path <path>    Path to Payload collections directory
+ *   --globals-path <path>        Path to Payload globals directory
  *   --output-path <path>         Path to output generated files
  *   --types-path <path>          Path to Payload generated types
+ *   --payload-config <path>      Path to Payload config (read for localization)
+ *   --framework <name>           Framework to generate routes for (react-router, next-app, sveltekit, astro, nuxt)
+ *   --singletons                 Export default clients configured from process.env.CMS_API_URL
+ *   --query-hooks                Generate TanStack Query hooks
+ *   --components                 Generate React components
+ *   --component-styling <name>   Styling of generated components (tailwind, css-modules, unstyled)
  *   --format                     Format generated files with Prettier
  *   --help                       Show help
  */
@@ -17,16 +24,39 @@
 import fs from 'fs';
 import path from 'path';
 import CollectionRegistry from './collectionRegistry.js';
+import type { RouteFramework } from './collectionRegistry.js';
+import type { ComponentStyling } from './generators/components.js';
 
 // Parse command line arguments
 const args = process.argv.slice(2);
 const options: {
   collectionsPath?: string;
+  globalsPath?: string;
   outputPath?: string;
   typesPath?: string;
+  payloadConfigPath?: string;
+  framework?: RouteFramework;
+  singletons?: boolean;
+  queryHooks?: boolean;
+  components?: boolean;
+  componentStyling?: ComponentStyling;
   format?: boolean;
 } = {};
 
+const FRAMEWORKS: RouteFramework[] = [
+  'react-router',
+  'next-app',
+  'sveltekit',
+  'astro',
+  'nuxt',
+];
+
+const COMPONENT_STYLINGS: ComponentStyling[] = [
+  'tailwind',
+  'css-modules',
+  'unstyled',
+];
+
 for (let i = 0; i < args.length; i++) {
   const arg = args[i];
 
@@ -40,6 +70,15 @@ for (let i = 0; i < args.length; i++) {
       options.collectionsPath = value;
       break;
     }
+    case '--globals-path': {
+      const value = args[++i];
+      if (!value) {
+        console.error('❌ --globals-path requires a value');
+        process.exit(1);
+      }
+      options.globalsPath = value;
+      break;
+    }
     case '--output-path': {
       const value = args[++i];
       if (!value) {
@@ -58,6 +97,46 @@ for (let i = 0; i < args.length; i++) {
       options.typesPath = value;
       break;
     }
+    case '--payload-config': {
+      const value = args[++i];
+      if (!value) {
+        console.error('❌ --payload-config requires a value');
+        process.exit(1);
+      }
+      options.payloadConfigPath = value;
+      break;
+    }
+    case '--framework': {
+      const value = args[++i];
+      if (!value || !FRAMEWORKS.includes(value as RouteFramework)) {
+        console.error(
+          `❌ --framework must be one of: ${FRAMEWORKS.join(', ')}`
+        );
+        process.exit(1);
+      }
+      options.framework = value as RouteFramework;
+      break;
+    }
+    case '--singletons':
+      options.singletons = true;
+      break;
+    case '--query-hooks':
+      options.queryHooks = true;
+      break;
+    case '--components':
+      options.components = true;
+      break;
+    case '--component-styling': {
+      const value = args[++i];
+      if (!value || !COMPONENT_STYLINGS.includes(value as ComponentStyling)) {
+        console.error(
+          `❌ --component-styling must be one of: ${COMPONENT_STYLINGS.join(', ')}`
+        );
+        process.exit(1);
+      }
+      options.componentStyling = value as ComponentStyling;
+      break;
+    }
     case '--format':
       options.format = true;
       break;
@@ -82,8 +161,15 @@ Usage:
 
 Options:
   --collections-path <path>    Path to Payload collections directory (default: ./src/collections)
+  --globals-path <path>        Path to Payload globals directory (default: globals next to the collections directory)
   --output-path <path>         Path to output generated files (default: ./generated)
   --types-path <path>          Path to Payload generated types (default: ./payload-types.ts)
+  --payload-config <path>      Path to Payload config, read for localization (default: payload.config.ts next to the collections directory)
+  --framework <name>           Framework to generate routes for: react-router, next-app, sveltekit, astro or nuxt (default: react-router)
+  --singletons                 Export default clients configured from process.env.CMS_API_URL
+  --query-hooks                Generate TanStack Query keys, query options and hooks
+  --components                 Generate React Card, List and Detail components
+  --component-styling <name>   Styling of generated components: tailwind, css-modules or unstyled (default: tailwind)
   --format                     Format generated files with Prettier
   --help                       Show this help message
 
@@ -91,6 +177,7 @@ Examples:
   collection-registry
   collection-registry --collections-path ./cms/collections --output-path ./web/lib
   collection-registry --format
+  collection-registry --framework next-app
 `);
 }
 
@@ -105,6 +192,17 @@ const config = {
   collectionsPath: options.collectionsPath || defaultPaths.collectionsPath,
   outputPath: options.outputPath || defaultPaths.outputPath,
   typesPath: options.typesPath || defaultPaths.typesPath,
+  ...(options.globalsPath && { globalsPath: options.globalsPath }),
+  ...(options.payloadConfigPath && {
+    payloadConfigPath: options.payloadConfigPath,
+  }),
+  ...(options.framework && { framework: options.framework }),
+  singletons: options.singletons || false,
+  queryHooks: options.queryHooks || false,
+  components: options.components || false,
+  ...(options.componentStyling && {
+    componentStyling: options.componentStyling,
+  }),
   format: options.format || false,
 };
 
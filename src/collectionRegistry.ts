@@ -7,113 +7,220 @@
  * - API client methods
  * - React components
  * - Route files
- * - Form schemas
- * - Validation rules
+ * - SEO utilities
  */
 
 import { execSync } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 import {
+  generateCollectionComponents,
+  generateComponentHelpers,
+} from './generators/components.js';
+import type { ComponentStyling } from './generators/components.js';
+import {
+  generateNuxtSEOComposable,
   generateSEOHooks,
   generateSEORoutes,
   generateSEOSitemap,
   generateSEOUtilities,
 } from './generators/seo.js';
-import type { CollectionMetadata } from './utils/fieldAnalyzer.js';
+import type {
+  BlockMetadata,
+  CollectionMetadata,
+  FieldMappings,
+  FieldMetadata,
+  FieldTypeOptions,
+  GlobalMetadata,
+  LocalizationConfig,
+  StatusValues,
+} from './utils/fieldAnalyzer.js';
 import {
+  collectBlockFields,
+  collectBlocks,
+  collectRelationTargets,
   deduplicateFields,
+  DEFAULT_FIELD_MAPPINGS,
+  DEFAULT_STATUS_VALUES,
   extractCollectionMetadata,
-  getTypeScriptType,
+  extractGlobalMetadata,
+  extractLocalization,
+  generateBlockInterfaces,
+  generateBlockUnionTypes,
+  generateFieldDefinitions,
+  generateLocalizedType,
+  getFieldTypeScriptType,
+  generateNamedInterfaces,
+  generateOptionConstants,
+  generateQueryTypes,
+  getBlockInterfaceName,
+  getQueryTypeImports,
   singularize,
+  toCamelCase,
 } from './utils/fieldAnalyzer.js';
 import {
+  DEFAULT_API_CLIENT_TEMPLATE,
+  DEFAULT_COLLECTION_TYPE_TEMPLATE,
+  DEFAULT_ROUTE_TEMPLATE,
   generateBaseClientTemplate,
+  generateCacheTemplate,
+  generateErrorClassesTemplate,
+  generateGlobalClientTemplate,
+  generateVersionsClientTemplate,
+  generateBlockRenderers,
   generateBaseTypesTemplate,
+  generateCollectionClientImports,
   generateCollectionClientMethods,
-  generateRouteTemplate,
+  generateAstroRoutes,
+  generateNextRouteSections,
+  generateNuxtClientComposableTemplate,
+  generateNuxtComposablesTemplate,
+  generateQueryClientContextTemplate,
+  generateQueryHooksIndexTemplate,
+  generateQueryHooksTemplate,
+  generateRouteSections,
+  generateSvelteKitRoutes,
+  renderSectionedTemplate,
+} from './utils/templateEngine.js';
+import type {
+  RouteTarget,
+  TemplateContext,
+  TemplateOverrides,
 } from './utils/templateEngine.js';
 
 export interface CollectionRegistryConfig {
   collectionsPath?: string;
+  globalsPath?: string; // Payload globals directory (default: globals next to collectionsPath)
   outputPath?: string;
   typesPath?: string;
+  payloadConfigPath?: string; // Payload config, read for localization (default: payload.config.ts next to collectionsPath)
   format?: boolean;
-  baseUrl?: string;
+  queryHooks?: boolean; // Generate TanStack Query keys, query options and hooks (default: false)
+  components?: boolean; // Generate React Card, List and Detail components (default: false)
+  componentStyling?: ComponentStyling; // Class names of generated components (default: 'tailwind')
+  framework?: RouteFramework | RouteTarget; // Framework that routes are generated for, or a custom route target (default: 'react-router')
+  baseUrl?: string; // Expression of the API URL used by the default clients (default: 'process.env.CMS_API_URL')
+  singletons?: boolean; // Export default clients configured from baseUrl (default: false)
   skipExamples?: boolean;
 
   // Field Detection Customization
-  fieldMappings?: {
-    slugField?: string; // Custom slug field name (default: 'slug')
-    statusField?: string; // Custom status field name (default: 'status')
-    seoField?: string; // Custom SEO field name (default: 'seo')
-    navigationField?: string; // Custom navigation field name (default: 'showInNavigation')
-    featuredImageField?: string; // Custom featured image field name (default: 'featuredImage')
-    excerptField?: string; // Custom excerpt field name (default: 'excerpt')
-    tagsField?: string; // Custom tags field name (default: 'tags')
-    authorField?: string; // Custom author field name (default: 'author')
-  };
+  fieldMappings?: FieldMappings;
 
   // Status Value Customization
-  statusValues?: {
-    draft?: string; // Draft status value (default: 'draft')
-    published?: string; // Published status value (default: 'published')
-    scheduled?: string; // Scheduled status value (default: 'scheduled')
-    archived?: string; // Archived status value (default: 'archived')
-  };
+  statusValues?: StatusValues;
 
   // Template Customization
-  templates?: {
-    collectionType?: string; // Custom collection type template
-    apiClient?: string; // Custom API client template
-    routes?: string; // Custom routes template
-  };
+  templates?: TemplatesConfig;
 
   // Debug Mode
   debug?: boolean; // Enable detailed logging (default: false)
 }
 
+export type TemplateKind = 'collectionType' | 'apiClient' | 'routes';
+
+export type RouteFramework =
+  | 'react-router'
+  | 'next-app'
+  | 'sveltekit'
+  | 'astro'
+  | 'nuxt';
+
+// Frameworks whose routes are plain files, without template overrides
+const ROUTE_TARGETS: Record<'sveltekit' | 'astro', RouteTarget> = {
+  sveltekit: generateSvelteKitRoutes,
+  astro: generateAstroRoutes,
+};
+
+/**
+ * Template overrides. Values containing `{{` or a line break are inline
+ * template source; anything else is a path to a template file.
+ */
+export interface TemplatesConfig {
+  collectionType?: string; // Custom collection type template
+  apiClient?: string; // Custom API client template
+  routes?: string; // Custom routes template (index and detail)
+  sections?: Partial<Record<TemplateKind, Record<string, string>>>; // Override single sections of the built-in templates
+}
+
+type ResolvedConfig = Required<
+  Omit<CollectionRegistryConfig, 'fieldMappings' | 'statusValues'>
+> & {
+  fieldMappings: Required<FieldMappings>;
+  statusValues: Required<StatusValues>;
+};
+
+/**
+ * Read a template from disk, unless it is inline template source
+ */
+function loadTemplate(source: string): string {
+  if (source.includes('{{') || /\r?\n/.test(source)) {
+    return source;
+  }
+
+  const templatePath = path.resolve(source);
+  if (!fs.existsSync(templatePath)) {
+    throw new Error(`Template file not found: ${templatePath}`);
+  }
+  return fs.readFileSync(templatePath, 'utf-8');
+}
+
 class CollectionRegistry {
   private collections: Map<string, CollectionMetadata>;
+  private globals: Map<string, GlobalMetadata>;
   private payloadTypes: string;
-  private config: Required<CollectionRegistryConfig>;
+  private localization: LocalizationConfig | null;
+  private config: ResolvedConfig;
+  // Status values set in the config, without the defaults, for typing status fields
+  private configuredStatusValues: StatusValues;
 
   constructor(config: CollectionRegistryConfig = {}) {
     this.collections = new Map();
+    this.globals = new Map();
     this.payloadTypes = '';
+    this.localization = null;
+    this.configuredStatusValues = config.statusValues || {};
 
     // Set configuration with defaults
     this.config = {
       collectionsPath: config.collectionsPath || './src/collections',
+      globalsPath:
+        config.globalsPath ||
+        path.join(
+          config.collectionsPath || './src/collections',
+          '..',
+          'globals'
+        ),
       outputPath: config.outputPath || './generated',
       typesPath: config.typesPath || './payload-types.ts',
+      payloadConfigPath:
+        config.payloadConfigPath ||
+        path.join(
+          config.collectionsPath || './src/collections',
+          '..',
+          'payload.config.ts'
+        ),
       format: config.format || false,
+      queryHooks: config.queryHooks || false,
+      components: config.components || false,
+      componentStyling: config.componentStyling || 'tailwind',
+      framework: config.framework || 'react-router',
       baseUrl: config.baseUrl || 'process.env.CMS_API_URL',
+      singletons: config.singletons || false,
       skipExamples: config.skipExamples !== false, // Default to true
 
       // Field mappings with defaults
       fieldMappings: {
-        slugField: 'slug',
-        statusField: 'status',
-        seoField: 'seo',
-        navigationField: 'showInNavigation',
-        featuredImageField: 'featuredImage',
-        excerptField: 'excerpt',
-        tagsField: 'tags',
-        authorField: 'author',
+        ...DEFAULT_FIELD_MAPPINGS,
         ...config.fieldMappings,
       },
 
       // Status values with defaults
       statusValues: {
-        draft: 'draft',
-        published: 'published',
-        scheduled: 'scheduled',
-        archived: 'archived',
+        ...DEFAULT_STATUS_VALUES,
         ...config.statusValues,
       },
 
-      // Templates with defaults (will be set later)
+      // Templates fall back to the built-in ones
       templates: config.templates || {},
 
       // Debug mode
@@ -145,7 +252,10 @@ class CollectionRegistry {
     collectionFiles.forEach((file) => {
       const filePath = path.join(this.config.collectionsPath, file);
       const content = fs.readFileSync(filePath, 'utf8');
-      const metadata = extractCollectionMetadata(content, file);
+      const metadata = extractCollectionMetadata(content, file, {
+        filePath: path.resolve(filePath),
+        fieldMappings: this.config.fieldMappings,
+      });
 
       if (metadata) {
         // Skip Examples collection if configured to do so
@@ -164,6 +274,54 @@ class CollectionRegistry {
     });
   }
 
+  /**
+   * Scan the Payload globals directory and extract global metadata
+   *
+   * Globals are optional, so a missing directory is skipped silently.
+   */
+  scanGlobals(): void {
+    if (!fs.existsSync(this.config.globalsPath)) return;
+
+    console.log('🔍 Scanning Payload globals...');
+
+    const globalFiles = fs
+      .readdirSync(this.config.globalsPath)
+      .filter((file) => file.endsWith('.ts') && file !== 'index.ts');
+
+    globalFiles.forEach((file) => {
+      const filePath = path.join(this.config.globalsPath, file);
+      const content = fs.readFileSync(filePath, 'utf8');
+      const metadata = extractGlobalMetadata(content, file, {
+        filePath: path.resolve(filePath),
+      });
+
+      if (metadata) {
+        this.globals.set(metadata.slug, metadata);
+        console.log(
+          `  ✅ Found global: ${metadata.slug} (${metadata.displayName})`
+        );
+      }
+    });
+  }
+
+  /**
+   * Read the locales from the Payload config's `localization` settings
+   */
+  loadLocalization(): void {
+    if (!fs.existsSync(this.config.payloadConfigPath)) return;
+
+    const content = fs.readFileSync(this.config.payloadConfigPath, 'utf8');
+    this.localization = extractLocalization(
+      content,
+      path.resolve(this.config.payloadConfigPath)
+    );
+    if (this.localization) {
+      console.log(
+        `🌐 Locales: ${this.localization.locales.join(', ')} (default: ${this.localization.defaultLocale})`
+      );
+    }
+  }
+
   /**
    * Load Payload generated types
    */
@@ -192,6 +350,14 @@ class CollectionRegistry {
       this.generateCollectionTypeFile(collection);
     });
 
+    // Generate global type files
+    Array.from(this.globals.values()).forEach((global) => {
+      this.generateGlobalTypeFile(global);
+    });
+
+    // Generate shared block types
+    this.generateBlockTypes();
+
     // Generate index file that exports everything
     this.generateTypesIndex();
 
@@ -205,7 +371,7 @@ class CollectionRegistry {
    * Generate base types file
    */
   private generateBaseTypes(): void {
-    const baseTypesContent = generateBaseTypesTemplate();
+    const baseTypesContent = generateBaseTypesTemplate(this.localization);
 
     const baseTypesPath = path.join(this.config.outputPath, 'types', 'base.ts');
     fs.mkdirSync(path.dirname(baseTypesPath), { recursive: true });
@@ -213,71 +379,171 @@ class CollectionRegistry {
   }
 
   /**
-   * Generate individual collection type file
+   * Get the blocks used by any collection or global, deduplicated by
+   * interface name
    */
-  private generateCollectionTypeFile(collection: CollectionMetadata): void {
-    const { slug, displayName, fields } = collection;
+  private getAllBlocks(): BlockMetadata[] {
+    return collectBlocks(
+      [...this.collections.values(), ...this.globals.values()].flatMap(
+        (c) => c.fields
+      )
+    );
+  }
 
-    // Clean up field definitions to avoid duplicates and type errors
-    const uniqueFields = deduplicateFields(fields);
-    const fieldDefinitions = uniqueFields
-      .map((field: { name: string; required: boolean; type: string }) => {
-        const optional = field.required ? '' : '?';
-        const type = getTypeScriptType(field.type, field.name);
-        return `  ${field.name}${optional}: ${type};`;
-      })
-      .join('\n');
+  /**
+   * Get type options that resolve relationship targets to collection types
+   */
+  private getTypeOptions(): FieldTypeOptions {
+    return {
+      resolveRelation: (target: string) =>
+        this.collections.get(target)?.displayName,
+    };
+  }
 
-    // For Media collection, just re-export the base Media type
-    if (slug === 'media') {
-      const collectionTypeContent = `/**
- * Media collection types
- * Generated from Payload CMS collections
- *
- * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
- */
+  /**
+   * Type generation options for the fields of one collection
+   */
+  private getCollectionTypeOptions(
+    collection: CollectionMetadata
+  ): FieldTypeOptions {
+    return {
+      ...this.getTypeOptions(),
+      statusField: collection.fieldMappings.statusField,
+      statusValues: this.configuredStatusValues,
+    };
+  }
+
+  /**
+   * Build type-only imports for the collections referenced by relationships
+   */
+  private getRelationImports(
+    fields: FieldMetadata[],
+    currentSlug?: string
+  ): string {
+    return collectRelationTargets(fields)
+      .map((target) => this.collections.get(target))
+      .filter(
+        (target): target is CollectionMetadata =>
+          target !== undefined && target.slug !== currentSlug
+      )
+      .map(
+        (target) =>
+          `import type { ${target.displayName} } from './${target.slug}';\n`
+      )
+      .join('');
+  }
 
-import type { Media as BaseMedia } from './base';
+  /**
+   * Whether a type file needs the base `Media` type, which is shadowed when
+   * the file declares or imports a `Media` collection type
+   */
+  private needsBaseMedia(fields: FieldMetadata[], typeName?: string): boolean {
+    return (
+      typeName !== 'Media' &&
+      !collectRelationTargets(fields).some(
+        (target) => this.collections.get(target)?.displayName === 'Media'
+      )
+    );
+  }
 
-// Media collection extends the base Media type
-export interface Media extends BaseMedia {
-  alt: string;
-}
+  /**
+   * Generate shared block types file
+   *
+   * Blocks are often shared between collections, so every block interface
+   * lives in one file instead of the collection files that use it.
+   */
+  private generateBlockTypes(): void {
+    const blocksTypePath = path.join(
+      this.config.outputPath,
+      'types',
+      'blocks.ts'
+    );
+    const blocks = this.getAllBlocks();
 
-// Export for convenience
-export type MediaInput = Omit<Media, 'id' | 'createdAt' | 'updatedAt'>;
-export type MediaUpdate = Partial<MediaInput>;
-`;
-      const collectionTypePath = path.join(
-        this.config.outputPath,
-        'types',
-        `${slug}.ts`
-      );
-      fs.writeFileSync(collectionTypePath, collectionTypeContent);
+    if (blocks.length === 0) {
+      if (fs.existsSync(blocksTypePath)) fs.unlinkSync(blocksTypePath);
       return;
     }
 
-    // For other collections, import Media type
-    const importStatement = "import type { Media } from './base';\n\n";
+    const blockFields = blocks.flatMap((block) => block.fields);
+    const blockInterfaces = generateBlockInterfaces(
+      blocks,
+      this.getTypeOptions()
+    );
 
-    const collectionTypeContent = `/**
- * ${displayName} collection types
+    const blocksTypeContent = `/**
+ * Block types
  * Generated from Payload CMS collections
  *
  * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
  */
 
-${importStatement}export interface ${displayName} {
-  id: string;
-${fieldDefinitions}
-  createdAt: string;
-  updatedAt: string;
-}
+${this.needsBaseMedia(blockFields) ? "import type { Media } from './base';\n" : ''}${this.getRelationImports(blockFields)}
+${blockInterfaces}
+`;
 
-// Export for convenience
+    fs.writeFileSync(blocksTypePath, blocksTypeContent);
+  }
+
+  /**
+   * Generate individual collection type file
+   */
+  private generateCollectionTypeFile(collection: CollectionMetadata): void {
+    const { slug, displayName, fields } = collection;
+
+    // Clean up field definitions to avoid duplicates and type errors
+    const uniqueFields = deduplicateFields(fields);
+    const typeOptions = this.getCollectionTypeOptions(collection);
+    const header = `/**
+ * ${displayName} collection types
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
+ */`;
+    const localizedType = generateLocalizedType(uniqueFields, displayName);
+    // Upload collections also export the MIME types they accept
+    const mimeTypes = collection.upload?.mimeTypes ?? [];
+    const mimeTypesConstant =
+      mimeTypes.length > 0
+        ? `export const ${displayName}MimeTypes = [${mimeTypes.map((type) => JSON.stringify(type)).join(', ')}] as const;`
+        : '';
+    const utilityTypes = `// Export for convenience
 export type ${displayName}Input = Omit<${displayName}, 'id' | 'createdAt' | 'updatedAt'>;
-export type ${displayName}Update = Partial<${displayName}Input>;
-`;
+export type ${displayName}Update = Partial<${displayName}Input>;${localizedType ? `\n${localizedType}` : ''}${mimeTypesConstant ? `\n${mimeTypesConstant}` : ''}`;
+
+    const queryTypes = generateQueryTypes(
+      uniqueFields,
+      displayName,
+      typeOptions
+    );
+    const queryImports = [
+      ...getQueryTypeImports(uniqueFields, typeOptions),
+      ...(localizedType ? ['Localized'] : []),
+    ]
+      .sort()
+      .join(', ');
+
+    const sections = {
+      header,
+      imports: this.getCollectionTypeImports(
+        uniqueFields,
+        collection,
+        queryImports
+      ),
+      interfaces: generateNamedInterfaces(uniqueFields, typeOptions),
+      fields: generateFieldDefinitions(uniqueFields, typeOptions),
+      utilityTypes,
+      queryTypes,
+      blockUnions: generateBlockUnionTypes(uniqueFields, displayName),
+      optionConstants: generateOptionConstants(uniqueFields, displayName),
+    };
+
+    const collectionTypeContent = renderSectionedTemplate(
+      DEFAULT_COLLECTION_TYPE_TEMPLATE,
+      sections,
+      this.getTemplateContext(collection),
+      this.getTemplateOverrides('collectionType')
+    );
 
     const collectionTypePath = path.join(
       this.config.outputPath,
@@ -287,6 +553,111 @@ export type ${displayName}Update = Partial<${displayName}Input>;
     fs.writeFileSync(collectionTypePath, collectionTypeContent);
   }
 
+  /**
+   * Generate the type file of a global
+   */
+  private generateGlobalTypeFile(global: GlobalMetadata): void {
+    const { slug, displayName } = global;
+    const fields = deduplicateFields(global.fields);
+    const typeOptions = this.getTypeOptions();
+    const localizedType = generateLocalizedType(fields, displayName);
+    const interfaces = generateNamedInterfaces(fields, typeOptions);
+    const blockUnions = generateBlockUnionTypes(fields, displayName);
+    const optionConstants = generateOptionConstants(fields, displayName);
+
+    const globalTypeContent = `/**
+ * ${displayName} global types
+ * Generated from Payload CMS globals
+ *
+ * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
+ */
+
+${this.getCollectionTypeImports(fields, global, localizedType ? 'Localized' : '')}
+
+${interfaces ? `${interfaces}\n\n` : ''}export interface ${displayName} {
+  id: string;
+${generateFieldDefinitions(fields, typeOptions)}
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Export for convenience
+export type ${displayName}Update = Partial<Omit<${displayName}, 'id' | 'createdAt' | 'updatedAt'>>;${localizedType ? `\n${localizedType}` : ''}
+${blockUnions ? `\n// Block unions for blocks fields\n${blockUnions}\n` : ''}${optionConstants ? `\n// Option values for select and radio fields\n${optionConstants}\n` : ''}`;
+
+    fs.writeFileSync(
+      path.join(this.config.outputPath, 'types', `${slug}.ts`),
+      globalTypeContent
+    );
+  }
+
+  /**
+   * Build the imports of a collection or global type file: Media, query
+   * helpers, blocks and relationship targets
+   */
+  private getCollectionTypeImports(
+    fields: FieldMetadata[],
+    collection: Pick<CollectionMetadata, 'slug' | 'displayName'>,
+    queryImports: string
+  ): string {
+    const blockNames = Array.from(
+      new Set(
+        collectBlockFields(fields, collection.displayName).flatMap(
+          ({ field }) => (field.blocks ?? []).map(getBlockInterfaceName)
+        )
+      )
+    );
+    const blockImports =
+      blockNames.length > 0
+        ? `import type { ${blockNames.join(', ')} } from './blocks';\n`
+        : '';
+
+    const baseImports = [
+      this.needsBaseMedia(fields, collection.displayName) && 'Media',
+      queryImports,
+    ]
+      .filter(Boolean)
+      .join(', ');
+
+    return `import type { ${baseImports} } from './base';\n${blockImports}${this.getRelationImports(fields, collection.slug)}`.trimEnd();
+  }
+
+  /**
+   * Build the context templates are rendered with: the collection metadata,
+   * its fields with their TypeScript types, and the resolved config
+   */
+  private getTemplateContext(collection: CollectionMetadata): TemplateContext {
+    const typeOptions = this.getCollectionTypeOptions(collection);
+
+    return {
+      ...collection,
+      fields: deduplicateFields(collection.fields).map((field) => ({
+        ...field,
+        tsType: getFieldTypeScriptType(field, typeOptions),
+      })),
+      singularName: singularize(collection.displayName),
+      config: this.config,
+    };
+  }
+
+  /**
+   * Load the user's template and section overrides for a template kind
+   */
+  private getTemplateOverrides(kind: TemplateKind): TemplateOverrides {
+    const { sections = {}, ...templates } = this.config.templates;
+    const template = templates[kind];
+
+    return {
+      ...(template !== undefined && { template: loadTemplate(template) }),
+      sections: Object.fromEntries(
+        Object.entries(sections[kind] ?? {}).map(([name, source]) => [
+          name,
+          loadTemplate(source),
+        ])
+      ),
+    };
+  }
+
   /**
    * Generate types index file
    */
@@ -298,11 +669,16 @@ export type ${displayName}Update = Partial<${displayName}Input>;
       .map((collection) => `export * from './types/${collection.slug}';`)
       .join('\n');
 
+    const globals = Array.from(this.globals.values());
+    const globalExports = globals
+      .map((global) => `export * from './types/${global.slug}';`)
+      .join('\n');
+
     // Generate re-export statements for commonly used types
-    const reExports = collections
+    const reExports = [...collections, ...globals]
       .map(
-        (collection) =>
-          `export type { ${collection.displayName} } from './types/${collection.slug}';`
+        ({ slug, displayName }) =>
+          `export type { ${displayName} } from './types/${slug}';`
       )
       .join('\n');
 
@@ -318,13 +694,9 @@ export * from './types/base';
 
 // Collection types
 ${collectionExports}
-
-// Global types
-export * from './types/site-settings';
-
+${this.getAllBlocks().length > 0 ? "\n// Block types\nexport * from './types/blocks';\n" : ''}${globals.length > 0 ? `\n// Global types\n${globalExports}\n` : ''}
 // Re-export commonly used types for convenience
 ${reExports}
-export type { SiteSettings } from './types/site-settings';
 `;
 
     const typesIndexPath = path.join(this.config.outputPath, 'types.ts');
@@ -339,6 +711,9 @@ export type { SiteSettings } from './types/site-settings';
 
     // Generate individual client files
     this.generateBaseClient();
+    this.generateCache();
+    this.generateErrorClasses();
+    this.generateVersionsClient();
     this.generateCollectionClients();
     this.generateClientIndex();
     this.generateMainClient();
@@ -357,118 +732,59 @@ export type { SiteSettings } from './types/site-settings';
     );
     fs.mkdirSync(path.dirname(baseClientPath), { recursive: true });
 
-    const baseClientContent = generateBaseClientTemplate(this.config.baseUrl);
+    const baseClientContent = generateBaseClientTemplate();
     fs.writeFileSync(baseClientPath, baseClientContent);
   }
 
   /**
-   * Generate individual collection client files
+   * Generate the response cache used by clients
    */
-  private generateCollectionClients(): void {
-    Array.from(this.collections.values()).forEach((collection) => {
-      this.generateCollectionClient(collection);
-    });
-
-    // Generate site-settings client (global, not collection)
-    this.generateSiteSettingsClient();
-
-    // Clean up old client files that are no longer needed
-    this.cleanupOldClientFiles();
+  private generateCache(): void {
+    const cachePath = path.join(this.config.outputPath, 'clients', 'cache.ts');
+    fs.writeFileSync(cachePath, generateCacheTemplate());
   }
 
   /**
-   * Generate site-settings client
+   * Generate the error classes thrown by clients
    */
-  private generateSiteSettingsClient(): void {
-    const clientPath = path.join(
+  private generateErrorClasses(): void {
+    const errorsPath = path.join(
       this.config.outputPath,
       'clients',
-      'site-settings.ts'
+      'errors.ts'
     );
-
-    const clientContent = `/**
- * Site Settings client
- * Generated from Payload CMS collections
- *
- * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
- */
-
-import { BasePayloadClient } from './base';
-import type { SiteSettings } from '../types';
-
-export class SiteSettingsClient extends BasePayloadClient {
-  /**
-   * Get site settings
-   */
-  async getSiteSettings(): Promise<SiteSettings> {
-    return this.fetch<SiteSettings>("/globals/site");
-  }
-}
-
-export const siteSettingsClient = new SiteSettingsClient();
-`;
-
-    fs.writeFileSync(clientPath, clientContent);
-
-    // Also generate the type file for site-settings
-    this.generateSiteSettingsTypeFile();
+    fs.writeFileSync(errorsPath, generateErrorClassesTemplate());
   }
 
   /**
-   * Generate site-settings type file
+   * Generate the versions client used by collections with versions
    */
-  private generateSiteSettingsTypeFile(): void {
-    const typePath = path.join(
+  private generateVersionsClient(): void {
+    const versionsPath = path.join(
       this.config.outputPath,
-      'types',
-      'site-settings.ts'
+      'clients',
+      'versions.ts'
     );
+    fs.writeFileSync(versionsPath, generateVersionsClientTemplate());
+  }
 
-    const typeContent = `/**
- * Site Settings types
- * Generated from Payload CMS collections
- *
- * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
- */
-
-export interface SiteSettings {
-  id: string;
-  siteName?: string;
-  siteDescription?: string;
-  logo?: any;
-  favicon?: any;
-  socialMedia?: {
-    twitter?: string;
-    facebook?: string;
-    instagram?: string;
-    linkedin?: string;
-    github?: string;
-  };
-  contactInfo?: {
-    email?: string;
-    phone?: string;
-    address?: string;
-  };
-  seo?: {
-    defaultTitle?: string;
-    defaultDescription?: string;
-    defaultKeywords?: string;
-    defaultImage?: any;
-  };
-  analytics?: {
-    googleAnalytics?: string;
-    googleTagManager?: string;
-  };
-  createdAt: string;
-  updatedAt: string;
-}
+  /**
+   * Generate individual collection client files
+   */
+  private generateCollectionClients(): void {
+    Array.from(this.collections.values()).forEach((collection) => {
+      this.generateCollectionClient(collection);
+    });
 
-// Export for convenience
-export type SiteSettingsInput = Omit<SiteSettings, 'id' | 'createdAt' | 'updatedAt'>;
-export type SiteSettingsUpdate = Partial<SiteSettingsInput>;
-`;
+    Array.from(this.globals.values()).forEach((global) => {
+      fs.writeFileSync(
+        path.join(this.config.outputPath, 'clients', `${global.slug}.ts`),
+        generateGlobalClientTemplate(global)
+      );
+    });
 
-    fs.writeFileSync(typePath, typeContent);
+    // Clean up old client files that are no longer needed
+    this.cleanupOldClientFiles();
   }
 
   /**
@@ -482,24 +798,25 @@ export type SiteSettingsUpdate = Partial<SiteSettingsInput>;
       `${slug}.ts`
     );
 
-    const methods = generateCollectionClientMethods(collection);
+    const methods = generateCollectionClientMethods(collection, {
+      statusValues: this.config.statusValues,
+    });
 
-    const clientContent = `/**
+    const clientContent = renderSectionedTemplate(
+      DEFAULT_API_CLIENT_TEMPLATE,
+      {
+        header: `/**
  * ${displayName} collection client
  * Generated from Payload CMS collections
  *
  * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
- */
-
-import type { ${displayName}, PayloadResponse, QueryOptions } from '../types';
-import { BasePayloadClient } from './base';
-
-export class ${displayName}Client extends BasePayloadClient {
-${methods}
-}
-
-export const ${slug}Client = new ${displayName}Client();
-`;
+ */`,
+        imports: generateCollectionClientImports(collection),
+        methods,
+      },
+      this.getTemplateContext(collection),
+      this.getTemplateOverrides('apiClient')
+    );
 
     fs.writeFileSync(clientPath, clientContent);
   }
@@ -518,19 +835,21 @@ export const ${slug}Client = new ${displayName}Client();
       .readdirSync(clientsDir)
       .filter(
         (file) =>
-          file.endsWith('.ts') && file !== 'base.ts' && file !== 'index.ts'
+          file.endsWith('.ts') &&
+          ![
+            'base.ts',
+            'cache.ts',
+            'errors.ts',
+            'index.ts',
+            'versions.ts',
+          ].includes(file)
       );
 
     clientFiles.forEach((file) => {
       const slug = file.replace('.ts', '');
 
-      // Skip site-settings as it's a global, not a collection
-      if (slug === 'site-settings') {
-        return;
-      }
-
-      // If this collection is not in our current collections, delete the file
-      if (!this.collections.has(slug)) {
+      // Delete clients of collections and globals that no longer exist
+      if (!this.collections.has(slug) && !this.globals.has(slug)) {
         const filePath = path.join(clientsDir, file);
         fs.unlinkSync(filePath);
         console.log(`  🗑️  Removed old client file: ${file}`);
@@ -550,18 +869,16 @@ export const ${slug}Client = new ${displayName}Client();
 
     const typeFiles = fs
       .readdirSync(typesDir)
-      .filter((file) => file.endsWith('.ts') && file !== 'base.ts');
+      .filter(
+        (file) =>
+          file.endsWith('.ts') && file !== 'base.ts' && file !== 'blocks.ts'
+      );
 
     typeFiles.forEach((file) => {
       const slug = file.replace('.ts', '');
 
-      // Skip site-settings as it's a global, not a collection
-      if (slug === 'site-settings') {
-        return;
-      }
-
-      // If this collection is not in our current collections, delete the file
-      if (!this.collections.has(slug)) {
+      // Delete types of collections and globals that no longer exist
+      if (!this.collections.has(slug) && !this.globals.has(slug)) {
         const filePath = path.join(typesDir, file);
         fs.unlinkSync(filePath);
         console.log(`  🗑️  Removed old type file: ${file}`);
@@ -580,10 +897,40 @@ export const ${slug}Client = new ${displayName}Client();
       'index.ts'
     );
 
+    const imports = collections
+      .map(
+        (collection) =>
+          `import { ${collection.displayName}Client } from './${collection.slug}';`
+      )
+      .join('\n');
     const exports = collections
+      .map((collection) => `  ${collection.displayName}Client,`)
+      .join('\n');
+    const collectionSlugs = collections
+      .map((collection) => `'${collection.slug}'`)
+      .join(' | ');
+    const factoryClients = collections
       .map(
         (collection) =>
-          `export { ${collection.slug}Client, ${collection.displayName}Client } from './${collection.slug}';`
+          `    ${toCamelCase(collection.slug)}: new ${collection.displayName}Client(config, session),`
+      )
+      .join('\n');
+
+    const globals = Array.from(this.globals.values());
+    const globalImports = globals
+      .map(
+        (global) =>
+          `import { ${global.displayName}Client } from './${global.slug}';`
+      )
+      .join('\n');
+    const globalExports = globals
+      .map((global) => `  ${global.displayName}Client,`)
+      .join('\n');
+    const globalSlugs = globals.map((global) => `'${global.slug}'`).join(' | ');
+    const globalClients = globals
+      .map(
+        (global) =>
+          `    ${toCamelCase(global.slug)}: new ${global.displayName}Client(config, session),`
       )
       .join('\n');
 
@@ -594,12 +941,78 @@ export const ${slug}Client = new ${displayName}Client();
  * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
  */
 
+import { createSession } from './base';
+import type { PayloadClientConfig } from './base';
+import { getCacheTag } from './cache';
+${[imports, globalImports].filter(Boolean).join('\n')}
+
 // Export individual clients
-${exports}
-export { siteSettingsClient, SiteSettingsClient } from './site-settings';
+export {
+${[exports, globalExports].filter(Boolean).join('\n')}
+};
 
 // Export base client
-export { BasePayloadClient } from './base';
+export { BasePayloadClient, createSession, DEFAULT_RETRY } from './base';
+export type {
+  AuthStrategy,
+  PayloadClientConfig,
+  PayloadSession,
+  RequestOptions,
+  RetryOptions,
+} from './base';
+
+// Export cache
+export { DEFAULT_CACHE_POLICY, getCacheTag, MemoryCache } from './cache';
+export type {
+  CacheAdapter,
+  CacheEntry,
+  CacheOptions,
+  CachePolicy,
+} from './cache';
+
+// Export errors
+export {
+  PayloadAPIError,
+  NotFoundError,
+  UnauthorizedError,
+  ForbiddenError,
+  ValidationError,
+  createPayloadError,
+  isPayloadError,
+  isNotFoundError,
+  isUnauthorizedError,
+  isForbiddenError,
+  isValidationError,
+} from './errors';
+export type { PayloadErrorDetail, PayloadErrorOptions } from './errors';
+
+// Export versions client
+export { VersionsClient } from './versions';
+export type { VersionQueryOptions } from './versions';
+
+// Slugs that cached responses are tagged with
+export type CollectionSlug = ${collectionSlugs || 'never'};
+export type GlobalSlug = ${globalSlugs || 'never'};
+
+/**
+ * Create every client, bound to one config and sharing one session and cache
+ */
+export function createPayloadClient(config: PayloadClientConfig) {
+  const session = createSession(config);
+
+  return {
+${[factoryClients, globalClients].filter(Boolean).join('\n')}
+
+    /**
+     * Drop cached responses of a collection or global, or only those containing one document
+     */
+    async invalidate(collection: CollectionSlug | GlobalSlug, id?: string | number): Promise<void> {
+      await session.cache?.invalidate([getCacheTag(collection, id)]);
+    },
+  };
+}
+
+export type PayloadClient = ReturnType<typeof createPayloadClient>;
 
 // Re-export types
 export type { PayloadResponse, QueryOptions } from '../types';
@@ -626,26 +1039,27 @@ export type { PayloadResponse, QueryOptions } from '../types';
         } = collection;
         const methods = [];
 
+        const client = `${toCamelCase(slug)}Client`;
         methods.push(`  // ${displayName}`);
         methods.push(
-          `  get${pluralName}List: (args?: any) => ${slug}Client.get${pluralName}List(args),`
+          `  get${pluralName}List: (args?: any) => ${client}.get${pluralName}List(args),`
         );
 
         if (hasSlug) {
           methods.push(
-            `  get${singularize(displayName)}: (args?: any) => ${slug}Client.get${singularize(displayName)}(args),`
+            `  get${singularize(displayName)}: (args?: any) => ${client}.get${singularize(displayName)}(args),`
           );
         }
 
         if (hasStatus) {
           methods.push(
-            `  getPublished${pluralName}: (args?: any) => ${slug}Client.getPublished${pluralName}(args),`
+            `  getPublished${pluralName}: (args?: any) => ${client}.getPublished${pluralName}(args),`
           );
         }
 
         if (hasNavigation) {
           methods.push(
-            `  get${pluralName}ForNavigation: () => ${slug}Client.get${pluralName}ForNavigation(),`
+            `  get${pluralName}ForNavigation: () => ${client}.get${pluralName}ForNavigation(),`
           );
         }
 
@@ -653,50 +1067,86 @@ export type { PayloadResponse, QueryOptions } from '../types';
       })
       .join('\n\n');
 
-    const clientImports = collections
-      .map((collection) => `  ${collection.slug}Client`)
-      .join(',\n');
+    const clientInstances = collections
+      .map(
+        (collection) =>
+          `export const ${toCamelCase(collection.slug)}Client = payload.${toCamelCase(collection.slug)};`
+      )
+      .join('\n');
 
-    const clientExports = collections
-      .map((collection) => `  ${collection.slug}Client`)
-      .join(',\n');
+    const globals = Array.from(this.globals.values());
+    const globalInstances = globals
+      .map((global) => {
+        const name = toCamelCase(global.slug);
+        return `export const ${name}Client = payload.${name};`;
+      })
+      .join('\n');
+    const globalMethods = globals
+      .filter((global) => global.access.read !== 'denied')
+      .map(
+        (global) =>
+          `  get${global.displayName}: () => ${toCamelCase(global.slug)}Client.get(),`
+      )
+      .join('\n');
 
-    const typeExports = collections
-      .map((collection) => `  ${collection.displayName}`)
+    const typeExports = [...collections, ...globals]
+      .map(({ displayName }) => `  ${displayName}`)
       .join(',\n');
 
+    const singletons = `
+// Default clients, created when this module is imported
+export const payload = getPayloadClient();
+
+${[clientInstances, globalInstances].filter(Boolean).join('\n')}
+export const invalidate = payload.invalidate;
+
+// Legacy compatibility - main client object
+export const payloadClient = {
+${legacyMethods}${globalMethods ? `\n\n  // Globals\n${globalMethods}` : ''}
+};
+`;
+
     const mainClientContent = `/**
- * Main Payload client - aggregates all collection clients
+ * Main Payload client - the client shared by generated routes and helpers
  * Generated from Payload CMS collections
  *
  * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
  */
 
-import {
-${clientImports},
-  siteSettingsClient,
-} from './clients';
-
-// Re-export all clients for convenience
-export {
-${clientExports},
-  siteSettingsClient,
-};
+import { createPayloadClient } from './clients';
+import type { PayloadClient, PayloadClientConfig } from './clients';
 
-// Legacy compatibility - main client object
-export const payloadClient = {
-${legacyMethods}
+let sharedClient: PayloadClient | undefined;
 
-  // Site Settings
-  getSiteSettings: () => siteSettingsClient.getSiteSettings(),
-};
+/**
+ * Replace the shared client, e.g. in the server entry of the app
+ */
+export function configurePayloadClient(config: PayloadClientConfig): PayloadClient {
+  sharedClient = createPayloadClient(config);
+  return sharedClient;
+}
 
+/**
+ * The shared client, created from ${this.config.baseUrl} on first use unless
+ * configurePayloadClient was called. It has no per-user session, so use it
+ * for public reads and create a client per request for authenticated ones.
+ */
+export function getPayloadClient(): PayloadClient {
+  if (!sharedClient) {
+    const baseUrl = ${this.config.baseUrl};
+    if (!baseUrl) {
+      throw new Error(${JSON.stringify(`Payload client is not configured: ${this.config.baseUrl} is empty and configurePayloadClient({ baseUrl }) was not called`)});
+    }
+    sharedClient = createPayloadClient({ baseUrl });
+  }
+  return sharedClient;
+}
+${this.config.singletons ? singletons : ''}
 // Re-export types
 export type {
 ${typeExports},
   PayloadResponse,
   QueryOptions,
-  SiteSettings,
 } from './types';
 `;
 
@@ -707,13 +1157,129 @@ ${typeExports},
     fs.writeFileSync(mainClientPath, mainClientContent);
   }
 
+  /**
+   * Generate exhaustive block renderers for collections with blocks fields
+   */
+  generateBlockRendererFiles(): void {
+    const blocksPath = path.join(this.config.outputPath, 'blocks');
+
+    Array.from(this.collections.values()).forEach((collection) => {
+      if (
+        collectBlockFields(collection.fields, collection.displayName).length ===
+        0
+      ) {
+        return;
+      }
+
+      const renderersPath = path.join(blocksPath, `${collection.slug}.ts`);
+      fs.mkdirSync(blocksPath, { recursive: true });
+      fs.writeFileSync(renderersPath, generateBlockRenderers(collection));
+    });
+  }
+
+  /**
+   * Generate TanStack Query keys, query options and hooks for each collection
+   */
+  generateQueryHookFiles(): void {
+    if (!this.config.queryHooks) {
+      return;
+    }
+
+    console.log('🔧 Generating query hooks...');
+
+    const queriesPath = path.join(this.config.outputPath, 'queries');
+    const collections = Array.from(this.collections.values());
+    fs.mkdirSync(queriesPath, { recursive: true });
+
+    collections.forEach((collection) => {
+      fs.writeFileSync(
+        path.join(queriesPath, `${collection.slug}.ts`),
+        generateQueryHooksTemplate(collection)
+      );
+    });
+    fs.writeFileSync(
+      path.join(queriesPath, 'client.ts'),
+      generateQueryClientContextTemplate()
+    );
+    fs.writeFileSync(
+      path.join(queriesPath, 'index.ts'),
+      generateQueryHooksIndexTemplate(collections)
+    );
+
+    console.log('✅ Generated query hooks');
+  }
+
+  /**
+   * Generate presentational React components for each collection
+   */
+  generateComponentFiles(): void {
+    if (!this.config.components) {
+      return;
+    }
+
+    console.log('🔧 Generating components...');
+
+    const sharedPath = path.join(this.config.outputPath, 'components');
+    fs.mkdirSync(sharedPath, { recursive: true });
+    fs.writeFileSync(
+      path.join(sharedPath, 'getLabel.ts'),
+      generateComponentHelpers()
+    );
+
+    Array.from(this.collections.values()).forEach((collection) => {
+      const componentsPath = path.join(
+        this.config.outputPath,
+        'components',
+        collection.slug
+      );
+      fs.mkdirSync(componentsPath, { recursive: true });
+
+      generateCollectionComponents(
+        collection,
+        this.config.componentStyling
+      ).forEach((file) => {
+        fs.writeFileSync(path.join(componentsPath, file.path), file.content);
+      });
+    });
+
+    console.log('✅ Generated components');
+  }
+
   /**
    * Generate route files
    */
   generateRouteFiles(): void {
     console.log('🔧 Generating route files...');
 
+    const { framework } = this.config;
+    if (framework === 'next-app') {
+      this.generateNextRouteFiles();
+      return;
+    }
+    if (framework === 'nuxt') {
+      this.generateNuxtComposableFiles();
+      return;
+    }
+    if (framework !== 'react-router') {
+      this.writeRouteTargetFiles(
+        typeof framework === 'function' ? framework : ROUTE_TARGETS[framework]
+      );
+      return;
+    }
+
     const routesPath = path.join(this.config.outputPath, 'routes');
+    const overrides = this.getTemplateOverrides('routes');
+    const renderRoute = (
+      collection: CollectionMetadata,
+      routeType: 'index' | 'detail',
+      localized = false
+    ): string =>
+      renderSectionedTemplate(
+        DEFAULT_ROUTE_TEMPLATE,
+        { ...generateRouteSections(collection, routeType, { localized }) },
+        { ...this.getTemplateContext(collection), routeType, localized },
+        overrides
+      );
 
     Array.from(this.collections.values()).forEach((collection) => {
       if (!collection.hasSlug) return;
@@ -723,7 +1289,7 @@ ${typeExports},
         routesPath,
         `${collection.slug}._index.tsx`
       );
-      const indexRouteContent = generateRouteTemplate(collection, 'index');
+      const indexRouteContent = renderRoute(collection, 'index');
       fs.mkdirSync(path.dirname(indexRoutePath), { recursive: true });
       fs.writeFileSync(indexRoutePath, indexRouteContent);
 
@@ -732,8 +1298,101 @@ ${typeExports},
         routesPath,
         `${collection.slug}.$slug.tsx`
       );
-      const detailRouteContent = generateRouteTemplate(collection, 'detail');
+      const detailRouteContent = renderRoute(collection, 'detail');
       fs.writeFileSync(detailRoutePath, detailRouteContent);
+
+      // Localized collections also get routes under a `$lang` segment
+      if (collection.isLocalized && this.localization) {
+        fs.writeFileSync(
+          path.join(routesPath, `$lang.${collection.slug}._index.tsx`),
+          renderRoute(collection, 'index', true)
+        );
+        fs.writeFileSync(
+          path.join(routesPath, `$lang.${collection.slug}.$slug.tsx`),
+          renderRoute(collection, 'detail', true)
+        );
+      }
+    });
+
+    console.log('✅ Generated route files');
+  }
+
+  /**
+   * Generate Next.js App Router pages, `app/<slug>/page.tsx` and
+   * `app/<slug>/[slug]/page.tsx`
+   */
+  private generateNextRouteFiles(): void {
+    const appPath = path.join(this.config.outputPath, 'app');
+    const overrides = this.getTemplateOverrides('routes');
+    const renderPage = (
+      collection: CollectionMetadata,
+      routeType: 'index' | 'detail'
+    ): string =>
+      renderSectionedTemplate(
+        DEFAULT_ROUTE_TEMPLATE,
+        {
+          ...generateNextRouteSections(collection, routeType, {
+            statusValues: this.config.statusValues,
+          }),
+        },
+        { ...this.getTemplateContext(collection), routeType, localized: false },
+        overrides
+      );
+
+    Array.from(this.collections.values()).forEach((collection) => {
+      if (!collection.hasSlug) return;
+
+      const detailPath = path.join(appPath, collection.slug, '[slug]');
+      fs.mkdirSync(detailPath, { recursive: true });
+      fs.writeFileSync(
+        path.join(appPath, collection.slug, 'page.tsx'),
+        renderPage(collection, 'index')
+      );
+      fs.writeFileSync(
+        path.join(detailPath, 'page.tsx'),
+        renderPage(collection, 'detail')
+      );
+    });
+
+    console.log('✅ Generated Next.js pages');
+  }
+
+  /**
+   * Generate Nuxt `useAsyncData` composables, `composables/<slug>.ts`, and
+   * the `usePayloadClient` composable they share
+   */
+  private generateNuxtComposableFiles(): void {
+    const composablesPath = path.join(this.config.outputPath, 'composables');
+    fs.mkdirSync(composablesPath, { recursive: true });
+    fs.writeFileSync(
+      path.join(composablesPath, 'usePayloadClient.ts'),
+      generateNuxtClientComposableTemplate()
+    );
+
+    Array.from(this.collections.values()).forEach((collection) => {
+      fs.writeFileSync(
+        path.join(composablesPath, `${collection.slug}.ts`),
+        generateNuxtComposablesTemplate(collection)
+      );
+    });
+
+    console.log('✅ Generated Nuxt composables');
+  }
+
+  /**
+   * Write the files a route target generates for each collection with a slug
+   */
+  private writeRouteTargetFiles(target: RouteTarget): void {
+    Array.from(this.collections.values()).forEach((collection) => {
+      if (!collection.hasSlug) return;
+
+      target(collection, { statusValues: this.config.statusValues }).forEach(
+        (file) => {
+          const filePath = path.join(this.config.outputPath, file.path);
+          fs.mkdirSync(path.dirname(filePath), { recursive: true });
+          fs.writeFileSync(filePath, file.content);
+        }
+      );
     });
 
     console.log('✅ Generated route files');
@@ -761,22 +1420,35 @@ ${typeExports},
         fs.writeFileSync(seoUtilsPath, seoUtilsContent);
         console.log(`  ✅ Generated SEO utilities: ${seoUtilsPath}`);
 
-        // Generate SEO hooks
-        const seoHooksContent = generateSEOHooks(collection);
-        const seoHooksPath = path.join(
-          this.config.outputPath,
-          'hooks',
-          `use${collection.displayName}SEO.ts`
-        );
-
-        // Ensure directory exists
-        fs.mkdirSync(path.dirname(seoHooksPath), { recursive: true });
-
-        fs.writeFileSync(seoHooksPath, seoHooksContent);
-        console.log(`  ✅ Generated SEO hooks: ${seoHooksPath}`);
+        // Generate SEO hooks for React targets, or a useSeoMeta composable for Nuxt
+        const { framework } = this.config;
+        const seoHooks =
+          framework === 'nuxt'
+            ? {
+                content: generateNuxtSEOComposable(collection),
+                file: `composables/use${collection.displayName}SeoMeta.ts`,
+              }
+            : framework === 'react-router' || framework === 'next-app'
+              ? {
+                  content: generateSEOHooks(collection),
+                  file: `hooks/use${collection.displayName}SEO.ts`,
+                }
+              : null;
+
+        if (seoHooks) {
+          const seoHooksPath = path.join(this.config.outputPath, seoHooks.file);
+
+          // Ensure directory exists
+          fs.mkdirSync(path.dirname(seoHooksPath), { recursive: true });
+
+          fs.writeFileSync(seoHooksPath, seoHooks.content);
+          console.log(`  ✅ Generated SEO hooks: ${seoHooksPath}`);
+        }
 
         // Generate SEO routes
-        const seoRoutesContent = generateSEORoutes(collection);
+        const seoRoutesContent = generateSEORoutes(collection, {
+          localized: this.localization !== null,
+        });
         const seoRoutesPath = path.join(
           this.config.outputPath,
           'seo',
@@ -788,7 +1460,9 @@ ${typeExports},
 
         // Generate SEO sitemap utilities
         if (collection.hasSlug) {
-          const seoSitemapContent = generateSEOSitemap(collection);
+          const seoSitemapContent = generateSEOSitemap(collection, {
+            statusValues: this.config.statusValues,
+          });
           const seoSitemapPath = path.join(
             this.config.outputPath,
             'seo',
@@ -819,9 +1493,23 @@ ${typeExports},
         `   Has Navigation: ${collection.hasNavigation ? '✅' : '❌'}`
       );
       console.log(`   Public Access: ${collection.isPublic ? '✅' : '❌'}`);
+      if (collection.versions) {
+        const { drafts, autosave, schedulePublish } = collection.versions;
+        const features = [
+          drafts && 'drafts',
+          autosave && 'autosave',
+          schedulePublish && 'scheduled publishing',
+        ].filter(Boolean);
+        console.log(
+          `   Versions: ✅${features.length > 0 ? ` (${features.join(', ')})` : ''}`
+        );
+      }
     });
 
     console.log(`\n✅ Generated ${this.collections.size} collection(s)`);
+    if (this.globals.size > 0) {
+      console.log(`✅ Generated ${this.globals.size} global(s)`);
+    }
   }
 
   /**
@@ -863,10 +1551,15 @@ ${typeExports},
     console.log(`🎨 Format files: ${this.config.format ? 'Yes' : 'No'}\n`);
 
     this.scanCollections();
+    this.scanGlobals();
+    this.loadLocalization();
     this.loadPayloadTypes();
     this.generateWebTypes();
     this.generateClientMethods();
+    this.generateQueryHookFiles();
+    this.generateBlockRendererFiles();
     this.generateRouteFiles();
+    this.generateComponentFiles();
     this.generateSEOUtilities();
     this.formatGeneratedFiles();
     this.generateReport();
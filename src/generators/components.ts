@@ -0,0 +1,328 @@
+/**
+ * @fileoverview React Component Generation
+ * @description Generate presentational React components for collections
+ */
+
+import { getDocumentVariables, singularize } from '../utils/fieldAnalyzer.js';
+import type {
+  CollectionMetadata,
+  FieldMetadata,
+} from '../utils/fieldAnalyzer.js';
+
+/**
+ * How generated components are styled: Tailwind classes, a CSS module per
+ * collection, or no class names at all
+ */
+export type ComponentStyling = 'tailwind' | 'css-modules' | 'unstyled';
+
+/**
+ * A generated component file, relative to the collection's component directory
+ */
+export interface ComponentFile {
+  path: string;
+  content: string;
+}
+
+// Tailwind classes of each styled element, also the CSS module class names
+const TAILWIND_CLASSES = {
+  list: 'grid gap-6 md:grid-cols-2 lg:grid-cols-3',
+  empty: 'text-gray-600',
+  card: 'bg-white rounded-lg shadow-md overflow-hidden',
+  cardImage: 'w-full h-48 object-cover',
+  cardBody: 'p-6',
+  cardTitle: 'text-xl font-semibold text-gray-900 mb-2',
+  link: 'hover:text-blue-600',
+  excerpt: 'text-gray-600 mb-4',
+  meta: 'text-sm text-gray-500',
+  author: 'text-sm text-gray-700',
+  tags: 'flex flex-wrap gap-2 mt-2',
+  tag: 'px-2 py-1 text-xs bg-gray-100 text-gray-700 rounded',
+  detail: 'prose prose-lg max-w-none',
+  detailImage: 'w-full h-64 object-cover rounded-lg mb-8',
+  detailTitle: 'text-4xl font-bold text-gray-900 mb-4',
+  detailExcerpt: 'text-xl text-gray-600 mb-8',
+  detailFooter: 'mt-8 pt-8 border-t border-gray-200 text-sm text-gray-500',
+};
+
+type ComponentClass = keyof typeof TAILWIND_CLASSES;
+
+const CSS_MODULE_RULES: Record<ComponentClass, string> = {
+  list: 'display: grid; gap: 1.5rem; grid-template-columns: repeat(auto-fill, minmax(18rem, 1fr));',
+  empty: 'color: #4b5563;',
+  card: 'overflow: hidden; border-radius: 0.5rem; background: #fff; box-shadow: 0 4px 6px -1px rgb(0 0 0 / 0.1);',
+  cardImage: 'width: 100%; height: 12rem; object-fit: cover;',
+  cardBody: 'padding: 1.5rem;',
+  cardTitle: 'margin-bottom: 0.5rem; font-size: 1.25rem; font-weight: 600;',
+  link: 'color: inherit;',
+  excerpt: 'margin-bottom: 1rem; color: #4b5563;',
+  meta: 'font-size: 0.875rem; color: #6b7280;',
+  author: 'font-size: 0.875rem; color: #374151;',
+  tags: 'display: flex; flex-wrap: wrap; gap: 0.5rem; margin-top: 0.5rem; padding: 0; list-style: none;',
+  tag: 'padding: 0.25rem 0.5rem; border-radius: 0.25rem; background: #f3f4f6; font-size: 0.75rem;',
+  detail: 'max-width: 65ch;',
+  detailImage:
+    'width: 100%; height: 16rem; margin-bottom: 2rem; border-radius: 0.5rem; object-fit: cover;',
+  detailTitle: 'margin-bottom: 1rem; font-size: 2.25rem; font-weight: 700;',
+  detailExcerpt: 'margin-bottom: 2rem; font-size: 1.25rem; color: #4b5563;',
+  detailFooter:
+    'margin-top: 2rem; padding-top: 2rem; border-top: 1px solid #e5e7eb; font-size: 0.875rem; color: #6b7280;',
+};
+
+/**
+ * How a mapped field is rendered: as text, or as the label of a related
+ * document. Null when its shape isn't one the components can render.
+ */
+function getLabelKind(
+  field: FieldMetadata | undefined
+): 'text' | 'relation' | null {
+  if (!field) return null;
+  if (['text', 'select', 'radio', 'email'].includes(field.type)) {
+    return 'text';
+  }
+  if (
+    ['relationship', 'upload'].includes(field.type) &&
+    typeof field.relationTo === 'string'
+  ) {
+    return 'relation';
+  }
+  return null;
+}
+
+/**
+ * Generate `components/getLabel.ts`, shared by the components that render
+ * related documents
+ */
+export function generateComponentHelpers(): string {
+  return `/**
+ * Component helpers
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
+ */
+
+// Label of a related document, or its ID when it isn't populated
+export function getLabel(value: string | { id: string }): string {
+  if (typeof value === 'string') return value;
+  const doc = value as { id: string; title?: string; name?: string; email?: string };
+  return doc.title || doc.name || doc.email || doc.id;
+}
+`;
+}
+
+/**
+ * Generate the Card, List and Detail components of a collection, with an
+ * index and, for CSS modules, the stylesheet
+ *
+ * Only the fields the collection has are rendered: the featured image,
+ * excerpt, author and tags each depend on their field mapping.
+ */
+export function generateCollectionComponents(
+  collection: CollectionMetadata,
+  styling: ComponentStyling = 'tailwind'
+): ComponentFile[] {
+  const {
+    slug,
+    displayName,
+    pluralName,
+    hasSlug,
+    hasFeaturedImage,
+    hasExcerpt,
+    hasAuthor,
+    hasTags,
+    fieldMappings,
+  } = collection;
+  const {
+    slugField,
+    featuredImageField,
+    excerptField,
+    authorField,
+    tagsField,
+  } = fieldMappings;
+  const singular = singularize(displayName);
+  const { list, item } = getDocumentVariables(collection);
+  const findField = (name: string) =>
+    collection.fields.find((field) => field.name === name);
+  const authorKind = hasAuthor ? getLabelKind(findField(authorField)) : null;
+  const tagsFieldMetadata = hasTags ? findField(tagsField) : undefined;
+  const tagsKind = getLabelKind(tagsFieldMetadata);
+  const usesLabel = authorKind === 'relation' || tagsKind === 'relation';
+
+  const title = findField('title')
+    ? `${item}.title`
+    : `${item}.${hasSlug ? slugField : 'id'}`;
+  const date = findField('publishedDate')
+    ? `${item}.publishedDate || ${item}.createdAt`
+    : `${item}.createdAt`;
+  const label = (kind: 'text' | 'relation' | null, value: string) =>
+    kind === 'relation' ? `getLabel(${value})` : value;
+  const className = (name: ComponentClass): string => {
+    if (styling === 'tailwind') return ` className='${TAILWIND_CLASSES[name]}'`;
+    if (styling === 'css-modules') return ` className={styles.${name}}`;
+    return '';
+  };
+
+  const stylesImport =
+    styling === 'css-modules'
+      ? `\nimport styles from './${slug}.module.css';`
+      : '';
+  const labelImport = usesLabel
+    ? `\nimport { getLabel } from '../getLabel';`
+    : '';
+
+  const image = (imageClass: ComponentClass, indent: string) =>
+    hasFeaturedImage
+      ? `${indent}{typeof ${item}.${featuredImageField} === 'object' && (
+${indent}  <img
+${indent}    src={${item}.${featuredImageField}.url}
+${indent}    alt={${item}.${featuredImageField}.alt || ${title}}${className(imageClass)}
+${indent}  />
+${indent})}
+`
+      : '';
+  const excerpt = (excerptClass: ComponentClass, indent: string) =>
+    hasExcerpt
+      ? `${indent}{${item}.${excerptField} && <p${className(excerptClass)}>{${item}.${excerptField}}</p>}
+`
+      : '';
+  const author = (indent: string) =>
+    authorKind
+      ? `${indent}{${item}.${authorField} && <p${className('author')}>By {${label(authorKind, `${item}.${authorField}`)}}</p>}
+`
+      : '';
+  const tags = (indent: string) => {
+    if (!tagsKind) return '';
+    const value = `${item}.${tagsField}`;
+    if (!tagsFieldMetadata?.hasMany) {
+      return `${indent}{${value} && <span${className('tag')}>{${label(tagsKind, value)}}</span>}
+`;
+    }
+    return `${indent}{${value} && ${value}.length > 0 && (
+${indent}  <ul${className('tags')}>
+${indent}    {${value}.map((tag, index) => (
+${indent}      <li key={index}${className('tag')}>{${label(tagsKind, 'tag')}}</li>
+${indent}    ))}
+${indent}  </ul>
+${indent})}
+`;
+  };
+
+  const header = (name: string) => `/**
+ * ${name}
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
+ */
+`;
+
+  const card = `${header(`${singular}Card component`)}
+import type { ${displayName} } from '../../types';${labelImport}${stylesImport}
+
+export interface ${singular}CardProps {
+  ${item}: ${displayName};
+  // Link to the ${singular.toLowerCase()}${hasSlug ? ` (default: /${slug}/<${slugField}>)` : ', the title is plain text without one'}
+  href?: string;
+}
+
+export function ${singular}Card({ ${item}, href${hasSlug ? ` = \`/${slug}/\${${item}.${slugField}}\`` : ''} }: ${singular}CardProps) {
+  return (
+    <div${className('card')}>
+${image('cardImage', '      ')}      <div${className('cardBody')}>
+        <h2${className('cardTitle')}>
+${
+  hasSlug
+    ? `          <a href={href}${className('link')}>
+            {${title}}
+          </a>`
+    : `          {href ? (
+            <a href={href}${className('link')}>
+              {${title}}
+            </a>
+          ) : (
+            ${title}
+          )}`
+}
+        </h2>
+${excerpt('excerpt', '        ')}${author('        ')}${tags('        ')}        <div${className('meta')}>{new Date(${date}).toLocaleDateString()}</div>
+      </div>
+    </div>
+  );
+}
+`;
+
+  const listComponent = `${header(`${pluralName}List component`)}
+import type { ${displayName} } from '../../types';
+import { ${singular}Card } from './${singular}Card';${stylesImport}
+
+export interface ${pluralName}ListProps {
+  ${list}: ${displayName}[];
+  // Link of each card${hasSlug ? ` (default: /${slug}/<${slugField}>)` : ''}
+  getHref?: (${item}: ${displayName}) => string;
+  emptyMessage?: string;
+}
+
+export function ${pluralName}List({ ${list}, getHref, emptyMessage = 'No ${pluralName.toLowerCase()} found.' }: ${pluralName}ListProps) {
+  if (${list}.length === 0) {
+    return <p${className('empty')}>{emptyMessage}</p>;
+  }
+
+  return (
+    <div${className('list')}>
+      {${list}.map((${item}) => (
+        <${singular}Card key={${item}.id} ${item}={${item}} href={getHref?.(${item})} />
+      ))}
+    </div>
+  );
+}
+`;
+
+  const detail = `${header(`${singular}Detail component`)}
+import type { ReactNode } from 'react';
+import type { ${displayName} } from '../../types';${labelImport}${stylesImport}
+
+export interface ${singular}DetailProps {
+  ${item}: ${displayName};
+  // Rendered body, such as the output of a rich text renderer
+  children?: ReactNode;
+}
+
+export function ${singular}Detail({ ${item}, children }: ${singular}DetailProps) {
+  return (
+    <article${className('detail')}>
+${image('detailImage', '      ')}      <h1${className('detailTitle')}>{${title}}</h1>
+${excerpt('detailExcerpt', '      ')}${author('      ')}${tags('      ')}      {children}
+      <footer${className('detailFooter')}>
+        Published: {new Date(${date}).toLocaleDateString()}
+      </footer>
+    </article>
+  );
+}
+`;
+
+  const files: ComponentFile[] = [
+    { path: `${singular}Card.tsx`, content: card },
+    { path: `${pluralName}List.tsx`, content: listComponent },
+    { path: `${singular}Detail.tsx`, content: detail },
+    {
+      path: 'index.ts',
+      content: `${header(`${displayName} components`)}
+export * from './${singular}Card';
+export * from './${pluralName}List';
+export * from './${singular}Detail';
+`,
+    },
+  ];
+
+  if (styling === 'css-modules') {
+    files.push({
+      path: `${slug}.module.css`,
+      content: (Object.keys(CSS_MODULE_RULES) as ComponentClass[])
+        .map(
+          (name) =>
+            `.${name} {\n  ${CSS_MODULE_RULES[name].split('; ').join(';\n  ')}\n}\n`
+        )
+        .join('\n'),
+    });
+  }
+
+  return files;
+}
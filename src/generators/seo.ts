@@ -3,7 +3,31 @@
  * @description Generate SEO-aware code for collections with SEO fields
  */
 
+import { getPublishedFilter } from '../utils/fieldAnalyzer.js';
 import type { CollectionMetadata } from '../utils/fieldAnalyzer.js';
+import type { TemplateOptions } from '../utils/templateEngine.js';
+
+/**
+ * Build the expression passed to `@alloylab/seo` for a document variable.
+ * Documents are remapped when the collection uses custom slug or SEO field
+ * names, since the SEO package reads `slug` and `seo`.
+ */
+function toSEODocument(
+  collection: CollectionMetadata,
+  variable: string
+): string {
+  const { slugField, seoField } = collection.fieldMappings;
+  const remapped = [
+    collection.hasSlug && slugField !== 'slug'
+      ? `slug: ${variable}.${slugField}`
+      : '',
+    seoField !== 'seo' ? `seo: ${variable}.${seoField}` : '',
+  ].filter(Boolean);
+
+  return remapped.length > 0
+    ? `{ ...${variable}, ${remapped.join(', ')} }`
+    : variable;
+}
 
 /**
  * Generate SEO utilities for a collection
@@ -24,7 +48,10 @@ export function generateSEOUtilities(collection: CollectionMetadata): string {
  */
 
 import { generateSEO, generateMetaTags } from '@alloylab/seo';
-import type { ${collectionName}, SiteSettings } from '../types';
+import type { ${collectionName} } from '../types';
+
+// Site settings in the shape @alloylab/seo expects
+type SiteSettings = Parameters<typeof generateSEO>[1];
 
 /**
  * Generate SEO data for ${collectionSlug}
@@ -35,7 +62,7 @@ export function generate${collectionName}SEO(
   baseUrl?: string
 ) {
   return generateSEO(
-    ${collectionSlug} as any,
+    ${toSEODocument(collection, collectionSlug)} as any,
     siteSettings,
     'page',
     baseUrl
@@ -87,7 +114,10 @@ export function generateSEOHooks(collection: CollectionMetadata): string {
  */
 
 import { useSEO } from '@alloylab/seo';
-import type { ${collectionName}, SiteSettings } from '../types';
+import type { ${collectionName} } from '../types';
+
+// Site settings in the shape @alloylab/seo expects
+type SiteSettings = Parameters<typeof useSEO>[0]['siteSettings'];
 
 /**
  * Hook for managing ${collectionSlug} SEO
@@ -99,7 +129,7 @@ export function use${collectionName}SEO(
 ) {
   return useSEO({
     siteSettings,
-    page: ${collectionSlug} as any,
+    page: ${toSEODocument(collection, collectionSlug)} as any,
     baseUrl,
     type: 'page'
   });
@@ -107,13 +137,141 @@ export function use${collectionName}SEO(
 `;
 }
 
+/**
+ * Generate a Nuxt composable that sets `useSeoMeta` from a collection's SEO
+ * group. Tags are only emitted for the fields the group has, falling back to
+ * the document's title and excerpt.
+ */
+export function generateNuxtSEOComposable(
+  collection: CollectionMetadata
+): string {
+  const collectionName = collection.displayName;
+  const { seoField, excerptField } = collection.fieldMappings;
+
+  if (!collection.hasSEO) {
+    return '';
+  }
+
+  const seoFields = new Map(
+    (
+      collection.fields.find((field) => field.name === seoField)?.fields ?? []
+    ).map((field) => [field.name, field.type])
+  );
+  const hasTitle = collection.fields.some((field) => field.name === 'title');
+  const image = ['image', 'ogImage'].find((name) => seoFields.has(name));
+
+  const title = [
+    seoFields.has('title') ? 'seo()?.title' : '',
+    hasTitle ? 'doc()?.title' : '',
+  ]
+    .filter(Boolean)
+    .join(' || ');
+  const description = [
+    seoFields.has('description') ? 'seo()?.description' : '',
+    collection.hasExcerpt ? `doc()?.${excerptField}` : '',
+  ]
+    .filter(Boolean)
+    .join(' || ');
+  const tags = [
+    title ? `    title: () => ${title},` : '',
+    title ? `    ogTitle: () => ${title},` : '',
+    description ? `    description: () => ${description},` : '',
+    description ? `    ogDescription: () => ${description},` : '',
+    image && seoFields.get(image) === 'upload'
+      ? `    ogImage: () => {
+      const image = seo()?.${image};
+      return typeof image === 'object' ? image?.url : undefined;
+    },`
+      : '',
+    seoFields.has('keywords') ? '    keywords: () => seo()?.keywords,' : '',
+    seoFields.has('noIndex')
+      ? "    robots: () => (seo()?.noIndex ? 'noindex, nofollow' : undefined),"
+      : '',
+  ].filter(Boolean);
+  const seo = tags.some((tag) => tag.includes('seo()'))
+    ? `\n  const seo = () => doc()?.${seoField};`
+    : '';
+
+  return `/**
+ * SEO composable for ${collectionName} collection
+ * Auto-generated by Collection Registry
+ */
+
+import { useSeoMeta } from '#imports';
+import { toValue } from 'vue';
+import type { MaybeRefOrGetter } from 'vue';
+import type { ${collectionName} } from '../types';
+
+/**
+ * Set the page's SEO meta tags from a ${collectionName.toLowerCase()} document, updating when it changes
+ */
+export function use${collectionName}SeoMeta(
+  source: MaybeRefOrGetter<${collectionName} | null | undefined>
+) {
+  const doc = () => toValue(source);${seo}
+
+  useSeoMeta({
+${tags.join('\n')}
+  });
+}
+`;
+}
+
+export interface SEORouteOptions {
+  // Emit hreflang alternates (needs LOCALES in the generated types)
+  localized?: boolean;
+}
+
+/**
+ * Generate hreflang helpers for a localized collection. Alternates point at
+ * the `/$lang` routes, with `x-default` using the default locale.
+ */
+function generateAlternates(collection: CollectionMetadata): string {
+  const collectionName = collection.displayName;
+  const collectionSlug = collection.slug;
+
+  return `
+/**
+ * Build hreflang alternates for a ${collectionSlug} path
+ */
+export function get${collectionName}Alternates(path: string, baseUrl: string) {
+  return [
+    ...LOCALES.map((locale) => ({
+      hreflang: locale,
+      href: \`\${baseUrl}/\${locale}\${path}\`
+    })),
+    { hreflang: 'x-default', href: \`\${baseUrl}/\${DEFAULT_LOCALE}\${path}\` }
+  ];
+}
+
+/**
+ * Render hreflang alternates for a ${collectionSlug} path as link tags
+ */
+export function get${collectionName}AlternateLinks(path: string, baseUrl: string): string {
+  return get${collectionName}Alternates(path, baseUrl)
+    .map(({ hreflang, href }) => \`<link rel="alternate" hreflang="\${hreflang}" href="\${href}" />\`)
+    .join('\\n');
+}
+`;
+}
+
 /**
  * Generate SEO route utilities for a collection
+ *
+ * Localized collections also get hreflang alternates, which are appended to
+ * the route's meta tags.
  */
-export function generateSEORoutes(collection: CollectionMetadata): string {
+export function generateSEORoutes(
+  collection: CollectionMetadata,
+  options: SEORouteOptions = {}
+): string {
   const collectionName = collection.displayName;
   const collectionSlug = collection.slug;
   const hasSeo = collection.hasSEO;
+  const localized = Boolean(options.localized && collection.isLocalized);
+  const path = collection.hasSlug
+    ? `\`/${collectionSlug}/\${${collectionSlug}.${collection.fieldMappings.slugField}}\``
+    : `'/${collectionSlug}'`;
 
   if (!hasSeo) {
     return '';
@@ -126,7 +284,10 @@ export function generateSEORoutes(collection: CollectionMetadata): string {
  */
 
 import { generateSEO, generateMetaTags } from '@alloylab/seo';
-import type { ${collectionName}, SiteSettings } from '../types';
+${localized ? "import { DEFAULT_LOCALE, LOCALES } from '../types';\n" : ''}import type { ${collectionName} } from '../types';
+
+// Site settings in the shape @alloylab/seo expects
+type SiteSettings = Parameters<typeof generateSEO>[1];
 
 /**
  * Generate SEO data for ${collectionSlug} route
@@ -137,7 +298,7 @@ export async function get${collectionName}SEO(
   baseUrl: string
 ) {
   return generateSEO(
-    ${collectionSlug} as any,
+    ${toSEODocument(collection, collectionSlug)} as any,
     siteSettings,
     'page',
     baseUrl
@@ -153,20 +314,34 @@ export async function get${collectionName}MetaTags(
   baseUrl: string
 ): Promise<string> {
   const seo = await get${collectionName}SEO(${collectionSlug}, siteSettings, baseUrl);
-  return generateMetaTags(seo);
+  return ${
+    localized
+      ? `[generateMetaTags(seo), get${collectionName}AlternateLinks(${path}, baseUrl)].join('\\n')`
+      : 'generateMetaTags(seo)'
+  };
 }
-`;
+${localized ? generateAlternates(collection) : ''}`;
 }
 
 /**
  * Generate SEO sitemap utilities for a collection
+ *
+ * Documents are fetched with the client's `getAll*` helper, so sitemaps
+ * include every page instead of the API's default page limit.
  */
-export function generateSEOSitemap(collection: CollectionMetadata): string {
+export function generateSEOSitemap(
+  collection: CollectionMetadata,
+  options: TemplateOptions = {}
+): string {
   const collectionName = collection.displayName;
   const collectionSlug = collection.slug;
   const pluralName = collection.pluralName;
   const hasSeo = collection.hasSEO;
   const hasSlug = collection.hasSlug;
+  const published = getPublishedFilter(collection, options.statusValues);
+  const query = collection.hasStatus
+    ? `{ where: { ${published.field}: { equals: '${published.value}' } } }`
+    : '';
 
   if (!hasSeo || !hasSlug) {
     return '';
@@ -179,7 +354,11 @@ export function generateSEOSitemap(collection: CollectionMetadata): string {
  */
 
 import { generateSitemapUrls } from '@alloylab/seo';
-import type { ${collectionName}, SiteSettings } from '../types';
+import type { ${collectionName}Client } from '../clients';
+import type { ${collectionName} } from '../types';
+
+// Site settings in the shape @alloylab/seo expects
+type SiteSettings = Parameters<typeof generateSitemapUrls>[1];
 
 /**
  * Generate sitemap URLs for ${collectionSlug} collection
@@ -190,7 +369,11 @@ export function generate${collectionName}SitemapUrls(
   baseUrl: string
 ) {
   return generateSitemapUrls(
-    ${pluralName.toLowerCase()} as any,
+    ${
+      toSEODocument(collection, 'doc') === 'doc'
+        ? pluralName.toLowerCase()
+        : `${pluralName.toLowerCase()}.map((doc) => (${toSEODocument(collection, 'doc')}))`
+    } as any,
     siteSettings,
     {
       baseUrl,
@@ -200,5 +383,17 @@ export function generate${collectionName}SitemapUrls(
     }
   );
 }
+
+/**
+ * Fetch every ${collection.hasStatus ? 'published ' : ''}${collectionSlug} document and generate its sitemap URLs
+ */
+export async function get${collectionName}SitemapUrls(
+  client: ${collectionName}Client,
+  siteSettings: SiteSettings,
+  baseUrl: string
+) {
+  const ${pluralName.toLowerCase()} = await client.getAll${pluralName}(${query});
+  return generate${collectionName}SitemapUrls(${pluralName.toLowerCase()}, siteSettings, baseUrl);
+}
 `;
 }
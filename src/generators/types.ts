@@ -5,13 +5,40 @@
  * types, and related code from Payload CMS collection metadata.
  */
 
-import type { CollectionMetadata } from '../utils/fieldAnalyzer.js';
+import type {
+  CollectionMetadata,
+  LocalizationConfig,
+  StatusValues,
+} from '../utils/fieldAnalyzer.js';
+import {
+  collectBlocks,
+  generateBlockInterfaces,
+  generateBlockUnionTypes,
+  generateFieldDefinitions,
+  generateLocalizedType,
+  generateNamedInterfaces,
+  generateOptionConstants,
+  generateQueryTypes,
+} from '../utils/fieldAnalyzer.js';
+import {
+  generateLocaleTypes,
+  generateQueryHelperTypes,
+  generateRelationHelperTypes,
+} from '../utils/templateEngine.js';
 
 export interface GeneratorOptions {
   includeBaseTypes?: boolean;
   includeUtilityTypes?: boolean;
   namespace?: string;
   outputFormat?: 'module' | 'namespace';
+  // Collections that relationship fields can point at
+  collections?: CollectionMetadata[];
+  // Emit the interfaces of blocks used by the collection (default: true)
+  includeBlockInterfaces?: boolean;
+  // Configured values of status fields whose options aren't static
+  statusValues?: StatusValues;
+  // Locales from the Payload config, for the `Locale` type
+  localization?: LocalizationConfig | null;
 }
 
 /**
@@ -22,34 +49,52 @@ export function generateCollectionInterface(
   options: GeneratorOptions = {}
 ): string {
   const { displayName, fields } = collection;
-  const { includeUtilityTypes = true } = options;
-
-  const fieldDefinitions = fields
-    .map((field) => {
-      const optional = field.required ? '' : '?';
-      const type = mapFieldTypeToTypeScript(field.type, field.name);
-      return `  ${field.name}${optional}: ${type};`;
-    })
-    .join('\n');
-
-  const baseInterface = `export interface ${displayName} {
+  const { includeUtilityTypes = true, includeBlockInterfaces = true } = options;
+
+  const typeOptions = {
+    mapType: mapFieldTypeToTypeScript,
+    resolveRelation: (slug: string) =>
+      options.collections?.find((c) => c.slug === slug)?.displayName,
+    statusField: collection.fieldMappings.statusField,
+    ...(options.statusValues && { statusValues: options.statusValues }),
+  };
+  const fieldDefinitions = generateFieldDefinitions(fields, typeOptions);
+  const namedInterfaces = generateNamedInterfaces(fields, typeOptions);
+  const blockInterfaces = includeBlockInterfaces
+    ? generateBlockInterfaces(collectBlocks(fields), typeOptions)
+    : '';
+  const blockUnionTypes = generateBlockUnionTypes(fields, displayName);
+
+  const baseInterface = `${blockInterfaces ? `${blockInterfaces}\n\n` : ''}${namedInterfaces ? `${namedInterfaces}\n\n` : ''}export interface ${displayName} {
   id: string;
 ${fieldDefinitions}
   createdAt: string;
   updatedAt: string;
-}`;
+}${blockUnionTypes ? `\n\n${blockUnionTypes}` : ''}`;
 
   if (!includeUtilityTypes) {
     return baseInterface;
   }
 
+  const localizedType = generateLocalizedType(fields, displayName);
   const utilityTypes = `
 // Utility types for ${displayName}
 export type ${displayName}Input = Omit<${displayName}, 'id' | 'createdAt' | 'updatedAt'>;
 export type ${displayName}Update = Partial<${displayName}Input>;
-export type ${displayName}Create = ${displayName}Input;`;
+export type ${displayName}Create = ${displayName}Input;
+
+// Query types for ${displayName}
+${generateQueryTypes(fields, displayName, typeOptions)}${localizedType ? `\n${localizedType}` : ''}`;
 
-  return baseInterface + utilityTypes;
+  const optionConstants = generateOptionConstants(fields, displayName);
+  const optionTypes = optionConstants
+    ? `
+
+// Option values for ${displayName} select and radio fields
+${optionConstants}`
+    : '';
+
+  return baseInterface + utilityTypes + optionTypes;
 }
 
 /**
@@ -60,10 +105,28 @@ export function generateAllCollectionInterfaces(
   options: GeneratorOptions = {}
 ): string {
   const interfaces = collections
-    .map((collection) => generateCollectionInterface(collection, options))
+    .map((collection) =>
+      generateCollectionInterface(collection, {
+        collections,
+        ...options,
+        includeBlockInterfaces: false,
+      })
+    )
     .join('\n\n');
 
-  const baseTypes = options.includeBaseTypes ? generateBaseTypes() : '';
+  // Blocks are shared between collections, so emit each interface once
+  const blockInterfaces = generateBlockInterfaces(
+    collectBlocks(collections.flatMap((collection) => collection.fields)),
+    {
+      mapType: mapFieldTypeToTypeScript,
+      resolveRelation: (slug: string) =>
+        collections.find((c) => c.slug === slug)?.displayName,
+    }
+  );
+
+  const baseTypes = options.includeBaseTypes
+    ? generateBaseTypes(options.localization)
+    : '';
 
   const header = `/**
  * Generated TypeScript types from Payload CMS collections
@@ -73,13 +136,21 @@ export function generateAllCollectionInterfaces(
 
 `;
 
-  return header + baseTypes + (baseTypes ? '\n\n' : '') + interfaces;
+  return (
+    header +
+    baseTypes +
+    (baseTypes ? '\n\n' : '') +
+    (blockInterfaces ? `${blockInterfaces}\n\n` : '') +
+    interfaces
+  );
 }
 
 /**
  * Generate base types used across all collections
  */
-export function generateBaseTypes(): string {
+export function generateBaseTypes(
+  localization: LocalizationConfig | null = null
+): string {
   return `// Base response type for Payload API
 export interface PayloadResponse<T> {
   docs: T[];
@@ -108,14 +179,11 @@ export interface Media {
   updatedAt: string;
 }
 
-// Query options for API requests
-export interface QueryOptions {
-  limit?: number;
-  page?: number;
-  where?: Record<string, any>;
-  sort?: string;
-  draft?: boolean;
-}
+${generateLocaleTypes(localization)}
+
+${generateQueryHelperTypes()}
+
+${generateRelationHelperTypes()}
 
 // SEO metadata
 export interface SEOData {
@@ -187,6 +255,7 @@ function mapFieldTypeToTypeScript(
     relationship: 'any', // Could be more specific based on relationship target
     array: 'any[]',
     group: 'any',
+    tab: 'any',
     blocks: 'any[]',
     json: 'any',
     code: 'string',
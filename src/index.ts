@@ -23,17 +23,33 @@
  * ```
  */
 export { default as CollectionRegistry } from './collectionRegistry.js';
+export type {
+  CollectionRegistryConfig,
+  RouteFramework,
+  TemplateKind,
+  TemplatesConfig,
+} from './collectionRegistry.js';
 
 /**
  * Type generation utilities
  */
 export * from './generators/types.js';
 
+/**
+ * React component generation
+ */
+export * from './generators/components.js';
+
 /**
  * Field analysis utilities for Payload collections
  */
 export * from './utils/fieldAnalyzer.js';
 
+/**
+ * AST helpers for reading Payload config objects
+ */
+export * from './utils/collectionParser.js';
+
 /**
  * Template engine for code generation
  */
@@ -0,0 +1,625 @@
+/**
+ * Collection Parser - Reads Payload config objects from source files
+ *
+ * This utility uses the TypeScript compiler API to parse collection files
+ * into an AST and read statically known values from the exported config
+ * object literal.
+ *
+ * Only values that can be determined without executing the file are read:
+ * string, number and boolean literals, object and array literals, spreads,
+ * and identifiers that point at `const` declarations in the same file or,
+ * when the file was parsed from its path on disk, imported from relative
+ * modules. Anything else (function calls, computed values) is reported as
+ * unknown so callers can decide how to handle it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+
+// Type definitions
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Error raised when a collection file cannot be parsed into metadata.
+ * The message is prefixed with `file:line:column` when a location is known.
+ */
+export class CollectionParseError extends Error {
+  readonly location: SourceLocation | undefined;
+
+  constructor(message: string, location?: SourceLocation) {
+    super(location ? `${formatLocation(location)}: ${message}` : message);
+    this.name = 'CollectionParseError';
+    this.location = location;
+  }
+}
+
+/**
+ * Format a source location as `file:line:column`
+ */
+export function formatLocation(location: SourceLocation): string {
+  return `${location.file}:${location.line}:${location.column}`;
+}
+
+/**
+ * Parse file content into a TypeScript source file with parent pointers set
+ */
+export function parseSource(content: string, filename: string): ts.SourceFile {
+  return ts.createSourceFile(
+    filename,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    filename.endsWith('.tsx') ? ts.ScriptKind.TSX : ts.ScriptKind.TS
+  );
+}
+
+/**
+ * Get the 1-based line and column of a node
+ */
+export function getLocation(node: ts.Node): SourceLocation {
+  const sourceFile = node.getSourceFile();
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile)
+  );
+  return { file: sourceFile.fileName, line: line + 1, column: character + 1 };
+}
+
+/**
+ * Find the exported config object literal in a source file
+ *
+ * Lookup order:
+ * 1. An exported variable typed (or `satisfies`) one of `typeNames`
+ * 2. The default export
+ * 3. Any exported variable whose object literal has `slug` and `fields`
+ *
+ * @param sourceFile - Parsed source file
+ * @param typeNames - Config type names to look for (e.g. `CollectionConfig`)
+ * @returns The config object literal, or undefined if none was found
+ */
+export function findConfigObject(
+  sourceFile: ts.SourceFile,
+  typeNames: string[] = ['CollectionConfig']
+): ts.ObjectLiteralExpression | undefined {
+  const exported: ts.VariableDeclaration[] = [];
+  let defaultExport: ts.Expression | undefined;
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement) && isExported(statement)) {
+      exported.push(...statement.declarationList.declarations);
+    } else if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      defaultExport = statement.expression;
+    }
+  }
+
+  for (const declaration of exported) {
+    if (
+      declaration.initializer &&
+      (hasTypeName(declaration.type, typeNames) ||
+        hasSatisfiesType(declaration.initializer, typeNames))
+    ) {
+      const object = asObjectLiteral(declaration.initializer);
+      if (object) return object;
+    }
+  }
+
+  if (defaultExport) {
+    const object = asObjectLiteral(defaultExport);
+    if (object) return object;
+  }
+
+  for (const declaration of exported) {
+    const object = declaration.initializer
+      ? asObjectLiteral(declaration.initializer)
+      : undefined;
+    if (
+      object &&
+      getProperty(object, 'slug') &&
+      getProperty(object, 'fields')
+    ) {
+      return object;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Find the Payload config object in a `payload.config.ts` file: the object
+ * passed to `buildConfig()`, or an exported object typed `Config`
+ */
+export function findPayloadConfigObject(
+  sourceFile: ts.SourceFile
+): ts.ObjectLiteralExpression | undefined {
+  let found: ts.ObjectLiteralExpression | undefined;
+
+  const visit = (node: ts.Node): void => {
+    if (found) return;
+
+    if (
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'buildConfig' &&
+      node.arguments[0]
+    ) {
+      found = asObjectLiteral(node.arguments[0]);
+    }
+
+    if (!found) ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return found ?? findConfigObject(sourceFile, ['Config']);
+}
+
+/**
+ * Find a standalone `fields` array when a file has no config object,
+ * e.g. a shared field list or a snippet of a collection config
+ */
+export function findFieldsArray(
+  sourceFile: ts.SourceFile
+): ts.ArrayLiteralExpression | undefined {
+  let found: ts.ArrayLiteralExpression | undefined;
+
+  const visit = (node: ts.Node): void => {
+    if (found) return;
+
+    if (
+      ts.isPropertyAssignment(node) &&
+      getPropertyName(node.name) === 'fields'
+    ) {
+      found = asArrayLiteral(node.initializer);
+    } else if (
+      ts.isLabeledStatement(node) &&
+      node.label.text === 'fields' &&
+      ts.isExpressionStatement(node.statement)
+    ) {
+      const expression = ts.isBinaryExpression(node.statement.expression)
+        ? node.statement.expression.left
+        : node.statement.expression;
+      found = asArrayLiteral(expression);
+    }
+
+    if (!found) ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return found;
+}
+
+/**
+ * Get a property value from an object literal, resolving identifiers
+ */
+export function getProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string
+): ts.Expression | undefined {
+  // Later properties win, matching object literal semantics
+  for (let i = object.properties.length - 1; i >= 0; i--) {
+    const property = object.properties[i];
+    if (!property) continue;
+
+    if (
+      ts.isPropertyAssignment(property) &&
+      getPropertyName(property.name) === name
+    ) {
+      return resolveExpression(property.initializer);
+    }
+
+    if (
+      ts.isShorthandPropertyAssignment(property) &&
+      property.name.text === name
+    ) {
+      return resolveExpression(property.name);
+    }
+
+    if (
+      ts.isMethodDeclaration(property) &&
+      getPropertyName(property.name) === name
+    ) {
+      return undefined;
+    }
+
+    if (ts.isSpreadAssignment(property)) {
+      const spread = asObjectLiteral(property.expression);
+      const value = spread ? getProperty(spread, name) : undefined;
+      if (value) return value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Read a string property from an object literal
+ */
+export function getStringProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string
+): string | undefined {
+  const value = getProperty(object, name);
+  return value ? getStringValue(value) : undefined;
+}
+
+/**
+ * Read a boolean property from an object literal
+ */
+export function getBooleanProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string
+): boolean | undefined {
+  const value = getProperty(object, name);
+  return value ? getBooleanValue(value) : undefined;
+}
+
+/**
+ * Read an object literal property from an object literal
+ */
+export function getObjectProperty(
+  object: ts.ObjectLiteralExpression,
+  name: string
+): ts.ObjectLiteralExpression | undefined {
+  const value = getProperty(object, name);
+  return value ? asObjectLiteral(value) : undefined;
+}
+
+/**
+ * Get the static string value of an expression
+ */
+export function getStringValue(expression: ts.Expression): string | undefined {
+  const resolved = resolveExpression(expression);
+  if (
+    ts.isStringLiteral(resolved) ||
+    ts.isNoSubstitutionTemplateLiteral(resolved)
+  ) {
+    return resolved.text;
+  }
+  return undefined;
+}
+
+/**
+ * Get the static boolean value of an expression
+ */
+export function getBooleanValue(
+  expression: ts.Expression
+): boolean | undefined {
+  const resolved = resolveExpression(expression);
+  if (resolved.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (resolved.kind === ts.SyntaxKind.FalseKeyword) return false;
+  return undefined;
+}
+
+/**
+ * Get the static number value of an expression
+ */
+export function getNumberValue(expression: ts.Expression): number | undefined {
+  const resolved = resolveExpression(expression);
+  return ts.isNumericLiteral(resolved) ? Number(resolved.text) : undefined;
+}
+
+/**
+ * Get the elements of an array literal, expanding static spreads
+ */
+export function getArrayElements(expression: ts.Expression): ts.Expression[] {
+  const array = asArrayLiteral(expression);
+  if (!array) return [];
+
+  return array.elements.flatMap((element) => {
+    if (ts.isSpreadElement(element)) {
+      return getArrayElements(element.expression);
+    }
+    return [resolveExpression(element)];
+  });
+}
+
+/**
+ * Resolve an expression to an object literal, if statically possible
+ */
+export function asObjectLiteral(
+  expression: ts.Expression
+): ts.ObjectLiteralExpression | undefined {
+  const resolved = resolveExpression(expression);
+  return ts.isObjectLiteralExpression(resolved) ? resolved : undefined;
+}
+
+/**
+ * Resolve an expression to an array literal, if statically possible
+ */
+export function asArrayLiteral(
+  expression: ts.Expression
+): ts.ArrayLiteralExpression | undefined {
+  const resolved = resolveExpression(expression);
+  return ts.isArrayLiteralExpression(resolved) ? resolved : undefined;
+}
+
+/**
+ * Check whether a function-like expression always returns the given literal,
+ * e.g. `() => true` or `function () { return true; }`
+ */
+export function returnsLiteral(
+  expression: ts.Expression,
+  value: boolean
+): boolean {
+  const resolved = resolveExpression(expression);
+
+  if (getBooleanValue(resolved) === value) return true;
+
+  if (ts.isArrowFunction(resolved) || ts.isFunctionExpression(resolved)) {
+    const body = resolved.body;
+    if (!ts.isBlock(body)) {
+      return getBooleanValue(body) === value;
+    }
+    const statements = body.statements;
+    const only = statements.length === 1 ? statements[0] : undefined;
+    return Boolean(
+      only &&
+        ts.isReturnStatement(only) &&
+        only.expression &&
+        getBooleanValue(only.expression) === value
+    );
+  }
+
+  return false;
+}
+
+/**
+ * Strip type assertions and parentheses, and follow identifiers to their
+ * `const` initializer in the same file
+ */
+export function resolveExpression(expression: ts.Expression): ts.Expression {
+  const seen = new Set<ts.Node>();
+  let current = expression;
+
+  while (!seen.has(current)) {
+    seen.add(current);
+
+    if (
+      ts.isParenthesizedExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isSatisfiesExpression(current) ||
+      ts.isTypeAssertionExpression(current) ||
+      ts.isNonNullExpression(current)
+    ) {
+      current = current.expression;
+      continue;
+    }
+
+    if (ts.isIdentifier(current)) {
+      const initializer = findConstInitializer(current);
+      if (initializer) {
+        current = initializer;
+        continue;
+      }
+    }
+
+    break;
+  }
+
+  return current;
+}
+
+/**
+ * Get the text of a property name (identifier, string or numeric literal)
+ */
+export function getPropertyName(name: ts.PropertyName): string | undefined {
+  if (
+    ts.isIdentifier(name) ||
+    ts.isStringLiteral(name) ||
+    ts.isNumericLiteral(name) ||
+    ts.isNoSubstitutionTemplateLiteral(name)
+  ) {
+    return name.text;
+  }
+  return undefined;
+}
+
+function findConstInitializer(
+  identifier: ts.Identifier
+): ts.Expression | undefined {
+  const sourceFile = identifier.getSourceFile();
+  return (
+    findLocalConst(sourceFile, identifier.text) ??
+    findImportedConst(sourceFile, identifier.text)
+  );
+}
+
+function findLocalConst(
+  sourceFile: ts.SourceFile,
+  name: string
+): ts.Expression | undefined {
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isVariableStatement(statement) ||
+      !(statement.declarationList.flags & ts.NodeFlags.Const)
+    ) {
+      continue;
+    }
+
+    for (const declaration of statement.declarationList.declarations) {
+      if (
+        ts.isIdentifier(declaration.name) &&
+        declaration.name.text === name &&
+        declaration.initializer
+      ) {
+        return declaration.initializer;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Follow an `import { name } from './module'` (or default import) to the
+ * exported `const` in the imported file
+ */
+function findImportedConst(
+  sourceFile: ts.SourceFile,
+  name: string
+): ts.Expression | undefined {
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      !statement.importClause ||
+      statement.importClause.isTypeOnly
+    ) {
+      continue;
+    }
+
+    const { importClause } = statement;
+    let exportName: string | undefined;
+
+    if (importClause.name?.text === name) {
+      exportName = 'default';
+    } else if (
+      importClause.namedBindings &&
+      ts.isNamedImports(importClause.namedBindings)
+    ) {
+      const specifier = importClause.namedBindings.elements.find(
+        (element) => element.name.text === name
+      );
+      if (specifier) {
+        exportName = (specifier.propertyName ?? specifier.name).text;
+      }
+    }
+
+    if (!exportName) continue;
+
+    const imported = loadModule(sourceFile, statement.moduleSpecifier.text);
+    return imported
+      ? findExportedConst(imported, exportName, new Set())
+      : undefined;
+  }
+
+  return undefined;
+}
+
+function findExportedConst(
+  sourceFile: ts.SourceFile,
+  exportName: string,
+  seen: Set<string>
+): ts.Expression | undefined {
+  if (seen.has(sourceFile.fileName)) return undefined;
+  seen.add(sourceFile.fileName);
+
+  for (const statement of sourceFile.statements) {
+    if (exportName === 'default' && ts.isExportAssignment(statement)) {
+      return statement.expression;
+    }
+
+    if (ts.isVariableStatement(statement) && isExported(statement)) {
+      const declaration = statement.declarationList.declarations.find(
+        (candidate) =>
+          ts.isIdentifier(candidate.name) && candidate.name.text === exportName
+      );
+      if (declaration?.initializer) return declaration.initializer;
+    }
+
+    if (ts.isExportDeclaration(statement) && !statement.isTypeOnly) {
+      const target =
+        statement.moduleSpecifier &&
+        ts.isStringLiteral(statement.moduleSpecifier)
+          ? loadModule(sourceFile, statement.moduleSpecifier.text)
+          : sourceFile;
+      if (!target) continue;
+
+      // export * from './module'
+      if (!statement.exportClause) {
+        const value = findExportedConst(target, exportName, seen);
+        if (value) return value;
+        continue;
+      }
+
+      // export { local as exportName } [from './module']
+      if (ts.isNamedExports(statement.exportClause)) {
+        const specifier = statement.exportClause.elements.find(
+          (element) => element.name.text === exportName
+        );
+        if (!specifier) continue;
+
+        const localName = (specifier.propertyName ?? specifier.name).text;
+        return target === sourceFile
+          ? findLocalConst(sourceFile, localName)
+          : findExportedConst(target, localName, seen);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+const moduleCache = new Map<string, { mtimeMs: number; file: ts.SourceFile }>();
+
+/**
+ * Load a relative module imported from a source file parsed from disk
+ */
+function loadModule(
+  importer: ts.SourceFile,
+  specifier: string
+): ts.SourceFile | undefined {
+  if (!specifier.startsWith('.') || !path.isAbsolute(importer.fileName)) {
+    return undefined;
+  }
+
+  const basePath = path.resolve(path.dirname(importer.fileName), specifier);
+  const withoutJs = basePath.replace(/\.(js|mjs)$/, '');
+  const candidates = [
+    basePath,
+    `${withoutJs}.ts`,
+    `${withoutJs}.tsx`,
+    path.join(basePath, 'index.ts'),
+    path.join(basePath, 'index.tsx'),
+  ];
+
+  const filePath = candidates.find(
+    (candidate) =>
+      /\.tsx?$/.test(candidate) &&
+      fs.existsSync(candidate) &&
+      fs.statSync(candidate).isFile()
+  );
+  if (!filePath) return undefined;
+
+  const { mtimeMs } = fs.statSync(filePath);
+  const cached = moduleCache.get(filePath);
+  if (cached && cached.mtimeMs === mtimeMs) return cached.file;
+
+  const file = parseSource(fs.readFileSync(filePath, 'utf8'), filePath);
+  moduleCache.set(filePath, { mtimeMs, file });
+  return file;
+}
+
+function isExported(statement: ts.VariableStatement): boolean {
+  return Boolean(
+    statement.modifiers?.some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+    )
+  );
+}
+
+function hasTypeName(
+  type: ts.TypeNode | undefined,
+  typeNames: string[]
+): boolean {
+  if (!type || !ts.isTypeReferenceNode(type)) return false;
+  const name = ts.isIdentifier(type.typeName)
+    ? type.typeName.text
+    : type.typeName.right.text;
+  return typeNames.includes(name);
+}
+
+function hasSatisfiesType(
+  expression: ts.Expression,
+  typeNames: string[]
+): boolean {
+  let current = expression;
+  while (ts.isParenthesizedExpression(current)) current = current.expression;
+  return (
+    (ts.isSatisfiesExpression(current) || ts.isAsExpression(current)) &&
+    hasTypeName(current.type, typeNames)
+  );
+}
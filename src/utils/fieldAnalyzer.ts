@@ -5,20 +5,158 @@
  * to generate appropriate TypeScript types and API client methods.
  *
  * The analysis process is transparent and works by:
- * 1. Parsing collection file content using regex patterns
- * 2. Extracting field definitions (name, type, required)
- * 3. Detecting common patterns (slug, status, SEO, etc.)
- * 4. Mapping Payload types to TypeScript types
+ * 1. Parsing collection file content into a TypeScript AST
+ * 2. Locating the exported `CollectionConfig` object literal
+ * 3. Reading field definitions (name, type, required) from its `fields` array
+ * 4. Detecting common patterns (slug, status, SEO, etc.)
+ * 5. Mapping Payload types to TypeScript types
  *
- * This approach is intentionally simple and predictable, making it easy to
- * understand and customize for different use cases.
+ * Only statically known values are read, so the result is predictable and
+ * never depends on executing the collection file.
  */
 
+import ts from 'typescript';
+import type { SourceLocation } from './collectionParser.js';
+import {
+  asArrayLiteral,
+  CollectionParseError,
+  findConfigObject,
+  findFieldsArray,
+  findPayloadConfigObject,
+  formatLocation,
+  getArrayElements,
+  getBooleanProperty,
+  getBooleanValue,
+  getLocation,
+  getNumberValue,
+  getObjectProperty,
+  getProperty,
+  getStringProperty,
+  getStringValue,
+  parseSource,
+  resolveExpression,
+  returnsLiteral,
+} from './collectionParser.js';
+
 // Type definitions
 export interface FieldMetadata {
   name: string;
   type: string;
   required: boolean;
+  location?: SourceLocation;
+  // Child fields of `group`, `array` and named `tab` fields
+  fields?: FieldMetadata[];
+  // Payload `interfaceName`, emitted as a named sub-interface
+  interfaceName?: string;
+  // Option values of `select` and `radio` fields
+  options?: string[];
+  // `hasMany` select and relationship fields store an array of values
+  hasMany?: boolean;
+  // Target collection slug(s) of `relationship` and `upload` fields
+  relationTo?: string | string[];
+  // Block definitions of `blocks` fields
+  blocks?: BlockMetadata[];
+  // `localized: true` stores one value per locale
+  localized?: boolean;
+}
+
+export interface BlockMetadata {
+  slug: string;
+  // Payload `interfaceName`, defaults to `${PascalSlug}Block`
+  interfaceName?: string;
+  fields: FieldMetadata[];
+  location?: SourceLocation;
+}
+
+export interface FieldMappings {
+  slugField?: string; // Custom slug field name (default: 'slug')
+  statusField?: string; // Custom status field name (default: 'status')
+  seoField?: string; // Custom SEO field name (default: 'seo')
+  navigationField?: string; // Custom navigation field name (default: 'showInNavigation')
+  featuredImageField?: string; // Custom featured image field name (default: 'featuredImage')
+  excerptField?: string; // Custom excerpt field name (default: 'excerpt')
+  tagsField?: string; // Custom tags field name (default: 'tags')
+  authorField?: string; // Custom author field name (default: 'author')
+}
+
+export interface StatusValues {
+  draft?: string; // Draft status value (default: 'draft')
+  published?: string; // Published status value (default: 'published')
+  scheduled?: string; // Scheduled status value (default: 'scheduled')
+  archived?: string; // Archived status value (default: 'archived')
+}
+
+export const DEFAULT_FIELD_MAPPINGS: Required<FieldMappings> = {
+  slugField: 'slug',
+  statusField: 'status',
+  seoField: 'seo',
+  navigationField: 'showInNavigation',
+  featuredImageField: 'featuredImage',
+  excerptField: 'excerpt',
+  tagsField: 'tags',
+  authorField: 'author',
+};
+
+export const DEFAULT_STATUS_VALUES: Required<StatusValues> = {
+  draft: 'draft',
+  published: 'published',
+  scheduled: 'scheduled',
+  archived: 'archived',
+};
+
+export interface ExtractOptions {
+  // Absolute path of the collection file, used to resolve relative imports
+  filePath?: string;
+  // Field names used for pattern detection (defaults: DEFAULT_FIELD_MAPPINGS)
+  fieldMappings?: FieldMappings;
+}
+
+/**
+ * Access to an operation, as far as it can be read statically
+ *
+ * - `public` - the access function always returns `true`
+ * - `denied` - it always returns `false`
+ * - `restricted` - it depends on the request, or isn't set (Payload then
+ *   only allows logged-in users)
+ */
+export type AccessLevel = 'public' | 'restricted' | 'denied';
+
+export interface CollectionAccess {
+  create: AccessLevel;
+  read: AccessLevel;
+  update: AccessLevel;
+  delete: AccessLevel;
+}
+
+/**
+ * A collection's `versions` config
+ *
+ * Collections with `drafts` get Payload's `_status` field, which replaces
+ * the `statusField` for published filters.
+ */
+export interface VersionsConfig {
+  drafts: boolean;
+  // Drafts are saved automatically while editing
+  autosave: boolean;
+  // Drafts can be scheduled to publish (`drafts.schedulePublish`)
+  schedulePublish: boolean;
+  // Versions kept per document, when set statically (0 keeps all)
+  maxPerDoc?: number;
+}
+
+/**
+ * A collection's `upload` config
+ *
+ * Upload collections get the file fields Payload adds (`url`, `filename`,
+ * `mimeType`, ...) and a `sizes` group with one entry per image size.
+ */
+export interface UploadConfig {
+  // Names of the resized images in `sizes` (`imageSizes`)
+  imageSizes: string[];
+  // Focal point coordinates are stored (Payload default: true)
+  focalPoint: boolean;
+  // Accepted MIME types, e.g. `image/*` (empty accepts any)
+  mimeTypes: string[];
 }
 
 export interface CollectionMetadata {
@@ -36,20 +174,40 @@ export interface CollectionMetadata {
   hasTags: boolean;
   hasAuthor: boolean;
   isPublic: boolean;
+  // `auth` is enabled, so the collection has login and session endpoints
+  isAuth: boolean;
+  // Some field, at any depth, is localized
+  isLocalized: boolean;
+  // `versions` config, or null when versions are disabled
+  versions: VersionsConfig | null;
+  // `upload` config, or null for collections without uploads
+  upload: UploadConfig | null;
+  // Access to each operation, from the collection's `access` functions
+  access: CollectionAccess;
+  // Field names the pattern flags were detected with
+  fieldMappings: Required<FieldMappings>;
+  // Field shown as a document's title: `admin.useAsTitle`, a `title` field
+  // or the first text field, null when there is none
+  titleField: string | null;
 }
 
 /**
  * Analyze collection fields from file content
  *
- * This function parses Payload CMS collection file content and extracts field definitions.
- * It uses regex patterns to find field definitions in the collection configuration.
+ * This function parses Payload CMS collection file content and reads the
+ * entries of the collection's `fields` array. Values nested elsewhere in the
+ * config (option labels, admin settings, etc.) are never treated as fields.
+ *
+ * The parsing logic reads, for each field object:
+ * - `name` - must be a string literal
+ * - `type` - must be a string literal
+ * - `required` - `true` only when the literal `true` is set
  *
- * The parsing logic looks for:
- * - Field names: `name: 'fieldName'` or `name: "fieldName"`
- * - Field types: `type: 'fieldType'` or `type: "fieldType"`
- * - Required flags: `required: true`
+ * Fields whose `name` or `type` cannot be determined statically are skipped
+ * with a warning that includes their source location.
  *
  * @param content - The raw file content of a Payload collection file
+ * @param filename - The filename used in source locations
  * @returns Array of FieldMetadata objects representing each field
  *
  * @example
@@ -63,46 +221,394 @@ export interface CollectionMetadata {
  * `;
  * const fields = analyzeFields(content);
  * // Returns: [
- * //   { name: 'title', type: 'text', required: true },
- * //   { name: 'slug', type: 'text', required: true },
- * //   { name: 'status', type: 'select', required: false }
+ * //   { name: 'title', type: 'text', required: true, location: {...} },
+ * //   { name: 'slug', type: 'text', required: true, location: {...} },
+ * //   { name: 'status', type: 'select', required: false, location: {...} }
  * // ]
  * ```
  */
-export function analyzeFields(content: string): FieldMetadata[] {
+export function analyzeFields(
+  content: string,
+  filename: string = 'collection.ts'
+): FieldMetadata[] {
+  const sourceFile = parseSource(content, filename);
+  const config = findConfigObject(sourceFile);
+  const fieldsArray = config
+    ? getProperty(config, 'fields')
+    : findFieldsArray(sourceFile);
+
+  return fieldsArray ? analyzeFieldList(fieldsArray) : [];
+}
+
+/**
+ * Analyze the entries of a `fields` array expression
+ *
+ * Presentational wrappers are flattened into the parent list: `row`,
+ * `collapsible`, unnamed `group`s and unnamed tabs contribute their child
+ * fields directly. Named `group`s, `array`s and named tabs keep their
+ * children in `fields`.
+ */
+function analyzeFieldList(fieldsArray: ts.Expression): FieldMetadata[] {
   const fields: FieldMetadata[] = [];
 
-  // Simple field extraction (could be more sophisticated)
-  const fieldMatches = content.matchAll(/name:\s*['"`]([^'"`]+)['"`]/g);
+  for (const element of getArrayElements(fieldsArray)) {
+    if (!ts.isObjectLiteralExpression(element)) {
+      warnSkippedField(element, 'field is not a static object literal');
+      continue;
+    }
 
-  for (const match of fieldMatches) {
-    const fieldName = match[1];
-    const fieldStart = match.index;
+    const type = getStringProperty(element, 'type');
+    if (!type) {
+      warnSkippedField(element, 'field has no static `type`');
+      continue;
+    }
 
-    if (!fieldName || fieldStart === undefined) continue;
+    // UI-only fields don't store data
+    if (type === 'ui') continue;
 
-    // Find the field type
-    const typeMatch = content
-      .substring(fieldStart)
-      .match(/type:\s*['"`]([^'"`]+)['"`]/);
-    const fieldType = typeMatch && typeMatch[1] ? typeMatch[1] : 'text';
+    if (type === 'tabs') {
+      fields.push(...analyzeTabs(element));
+      continue;
+    }
 
-    // Status fields should be required for SEO compatibility
-    const isRequired =
-      content
-        .substring(fieldStart, fieldStart + 200)
-        .includes('required: true') || fieldName === 'status';
+    const name = getStringProperty(element, 'name');
+    const childFields = getProperty(element, 'fields');
 
-    fields.push({
-      name: fieldName,
-      type: fieldType,
-      required: isRequired,
-    });
+    if (!name) {
+      // Presentational wrapper: row, collapsible or unnamed group
+      if (childFields) fields.push(...analyzeFieldList(childFields));
+      continue;
+    }
+
+    fields.push(
+      createFieldMetadata(element, name, type, {
+        children:
+          type === 'group' || type === 'array' ? childFields : undefined,
+      })
+    );
   }
 
   return fields;
 }
 
+/**
+ * Analyze the tabs of a `tabs` field. Named tabs become object fields,
+ * unnamed tabs are flattened into the parent.
+ */
+function analyzeTabs(tabsField: ts.ObjectLiteralExpression): FieldMetadata[] {
+  const tabs = getProperty(tabsField, 'tabs');
+  if (!tabs) return [];
+
+  return getArrayElements(tabs).flatMap((tab) => {
+    if (!ts.isObjectLiteralExpression(tab)) {
+      warnSkippedField(tab, 'tab is not a static object literal');
+      return [];
+    }
+
+    const childFields = getProperty(tab, 'fields');
+    const name = getStringProperty(tab, 'name');
+
+    if (!name) {
+      return childFields ? analyzeFieldList(childFields) : [];
+    }
+
+    return [createFieldMetadata(tab, name, 'tab', { children: childFields })];
+  });
+}
+
+function createFieldMetadata(
+  element: ts.ObjectLiteralExpression,
+  name: string,
+  type: string,
+  { children }: { children: ts.Expression | undefined }
+): FieldMetadata {
+  const field: FieldMetadata = {
+    name,
+    type,
+    required: getBooleanProperty(element, 'required') === true,
+    location: getLocation(element),
+  };
+
+  if (children) {
+    field.fields = analyzeFieldList(children);
+  }
+
+  const interfaceName = getStringProperty(element, 'interfaceName');
+  if (interfaceName) {
+    field.interfaceName = interfaceName;
+  }
+
+  if (type === 'select' || type === 'radio') {
+    const options = analyzeOptions(element);
+    if (options) field.options = options;
+  }
+
+  if (getBooleanProperty(element, 'hasMany') === true) {
+    field.hasMany = true;
+  }
+
+  if (getBooleanProperty(element, 'localized') === true) {
+    field.localized = true;
+  }
+
+  if (type === 'relationship' || type === 'upload') {
+    const relationTo = analyzeRelationTo(element);
+    if (relationTo) field.relationTo = relationTo;
+  }
+
+  if (type === 'blocks') {
+    field.blocks = analyzeBlocks(element);
+  }
+
+  return field;
+}
+
+/**
+ * Read the block definitions of a `blocks` field
+ *
+ * Blocks may be declared inline or imported from other files; imports are
+ * followed when the collection was parsed from its path on disk.
+ */
+function analyzeBlocks(element: ts.ObjectLiteralExpression): BlockMetadata[] {
+  const blocks = getProperty(element, 'blocks');
+  if (!blocks) return [];
+
+  return getArrayElements(blocks).flatMap((block) => {
+    const slug = ts.isObjectLiteralExpression(block)
+      ? getStringProperty(block, 'slug')
+      : undefined;
+
+    if (!ts.isObjectLiteralExpression(block) || !slug) {
+      console.warn(
+        `  ⚠️  ${formatLocation(getLocation(block))}: skipping block, block has no static \`slug\``
+      );
+      return [];
+    }
+
+    const childFields = getProperty(block, 'fields');
+    const metadata: BlockMetadata = {
+      slug,
+      fields: childFields ? analyzeFieldList(childFields) : [],
+      location: getLocation(block),
+    };
+
+    const interfaceName = getStringProperty(block, 'interfaceName');
+    if (interfaceName) metadata.interfaceName = interfaceName;
+
+    return [metadata];
+  });
+}
+
+/**
+ * Read a field's `relationTo` as a single slug or a list of slugs
+ * (polymorphic relationship)
+ */
+function analyzeRelationTo(
+  element: ts.ObjectLiteralExpression
+): string | string[] | undefined {
+  const relationTo = getProperty(element, 'relationTo');
+  if (!relationTo) return undefined;
+
+  if (!asArrayLiteral(relationTo)) {
+    return getStringValue(relationTo);
+  }
+
+  const slugs = getArrayElements(relationTo).map(getStringValue);
+  return slugs.every((slug): slug is string => slug !== undefined)
+    ? slugs
+    : undefined;
+}
+
+/**
+ * Read option values from a field's `options` array
+ *
+ * Options may be plain strings or `{ label, value }` objects. Returns
+ * undefined when any option can't be read statically, so callers fall back
+ * to a plain `string` type instead of an incomplete union.
+ */
+function analyzeOptions(
+  element: ts.ObjectLiteralExpression
+): string[] | undefined {
+  const options = getProperty(element, 'options');
+  if (!options || !asArrayLiteral(options)) return undefined;
+
+  const values: string[] = [];
+  for (const option of getArrayElements(options)) {
+    const value = ts.isObjectLiteralExpression(option)
+      ? getStringProperty(option, 'value')
+      : getStringValue(option);
+    if (value === undefined) return undefined;
+    values.push(value);
+  }
+
+  return values;
+}
+
+/**
+ * Whether a collection's `auth` property enables authentication
+ * (`auth: true` or an options object)
+ */
+function isAuthEnabled(auth: ts.Expression | undefined): boolean {
+  return auth !== undefined && isEnabled(auth);
+}
+
+/**
+ * Read a collection's `upload` property (`upload: true` or an options
+ * object with `imageSizes`, `focalPoint` and `mimeTypes`)
+ */
+function analyzeUpload(upload: ts.Expression | undefined): UploadConfig | null {
+  if (!upload || !isEnabled(upload)) return null;
+  const resolved = resolveExpression(upload);
+  if (!ts.isObjectLiteralExpression(resolved)) {
+    return { imageSizes: [], focalPoint: true, mimeTypes: [] };
+  }
+
+  const imageSizes = getProperty(resolved, 'imageSizes');
+  const mimeTypes = getProperty(resolved, 'mimeTypes');
+
+  return {
+    imageSizes: imageSizes
+      ? getArrayElements(imageSizes)
+          .map(resolveExpression)
+          .filter(ts.isObjectLiteralExpression)
+          .map((size) => getStringProperty(size, 'name'))
+          .filter((name): name is string => name !== undefined)
+      : [],
+    focalPoint: getBooleanProperty(resolved, 'focalPoint') !== false,
+    mimeTypes: mimeTypes
+      ? getArrayElements(mimeTypes)
+          .map(getStringValue)
+          .filter((type): type is string => type !== undefined)
+      : [],
+  };
+}
+
+/**
+ * The file fields Payload adds to an upload collection
+ */
+function getUploadFields(
+  upload: UploadConfig,
+  displayName: string
+): FieldMetadata[] {
+  const file = (name: string, type = 'text'): FieldMetadata => ({
+    name,
+    type,
+    required: false,
+  });
+  const fileFields = [
+    file('url'),
+    file('filename'),
+    file('mimeType'),
+    file('filesize', 'number'),
+    file('width', 'number'),
+    file('height', 'number'),
+  ];
+
+  return [
+    ...fileFields,
+    file('thumbnailURL'),
+    ...(upload.focalPoint
+      ? [file('focalX', 'number'), file('focalY', 'number')]
+      : []),
+    ...(upload.imageSizes.length > 0
+      ? [
+          {
+            name: 'sizes',
+            type: 'group',
+            required: false,
+            fields: upload.imageSizes.map((size) => ({
+              name: size,
+              type: 'group',
+              required: false,
+              interfaceName: `${singularize(displayName)}Size`,
+              fields: fileFields,
+            })),
+          },
+        ]
+      : []),
+  ];
+}
+
+/**
+ * Read a collection's `versions` property (`versions: true` or an options
+ * object with `drafts`, `maxPerDoc`, ...)
+ */
+function analyzeVersions(
+  versions: ts.Expression | undefined
+): VersionsConfig | null {
+  if (!versions) return null;
+  const resolved = resolveExpression(versions);
+  if (getBooleanValue(resolved) === true) {
+    return { drafts: false, autosave: false, schedulePublish: false };
+  }
+  if (!ts.isObjectLiteralExpression(resolved)) return null;
+
+  const drafts = getProperty(resolved, 'drafts');
+  const draftsConfig = drafts ? resolveExpression(drafts) : undefined;
+  const draftOptions =
+    draftsConfig && ts.isObjectLiteralExpression(draftsConfig)
+      ? draftsConfig
+      : undefined;
+  const autosave = draftOptions
+    ? getProperty(draftOptions, 'autosave')
+    : undefined;
+  const maxPerDocValue = getProperty(resolved, 'maxPerDoc');
+  const maxPerDoc = maxPerDocValue ? getNumberValue(maxPerDocValue) : undefined;
+
+  return {
+    drafts:
+      draftOptions !== undefined ||
+      (draftsConfig !== undefined && getBooleanValue(draftsConfig) === true),
+    autosave: autosave !== undefined && isEnabled(autosave),
+    schedulePublish:
+      draftOptions !== undefined &&
+      getBooleanProperty(draftOptions, 'schedulePublish') === true,
+    ...(maxPerDoc !== undefined && { maxPerDoc }),
+  };
+}
+
+/**
+ * Whether an option is enabled (`true` or an options object)
+ */
+function isEnabled(option: ts.Expression): boolean {
+  const resolved = resolveExpression(option);
+  return (
+    ts.isObjectLiteralExpression(resolved) || getBooleanValue(resolved) === true
+  );
+}
+
+/**
+ * Whether any field, including those nested in groups, arrays and blocks,
+ * is localized
+ */
+function hasLocalizedFields(fields: FieldMetadata[]): boolean {
+  return fields.some(
+    (field) =>
+      field.localized === true ||
+      hasLocalizedFields(field.fields ?? []) ||
+      (field.blocks ?? []).some((block) => hasLocalizedFields(block.fields))
+  );
+}
+
+/**
+ * Classify an operation's access function
+ *
+ * Only functions that always return a boolean literal are public or
+ * denied; everything else depends on the request and is restricted.
+ */
+function analyzeAccess(access: ts.Expression | undefined): AccessLevel {
+  if (!access) return 'restricted';
+  if (returnsLiteral(access, true)) return 'public';
+  if (returnsLiteral(access, false)) return 'denied';
+  return 'restricted';
+}
+
+function warnSkippedField(node: ts.Node, reason: string): void {
+  console.warn(
+    `  ⚠️  ${formatLocation(getLocation(node))}: skipping field, ${reason}`
+  );
+}
+
 /**
  * Extract collection metadata from file content
  *
@@ -110,12 +616,20 @@ export function analyzeFields(content: string): FieldMetadata[] {
  * metadata including field patterns and collection properties.
  *
  * The analysis process:
- * 1. Extracts the collection slug from `slug: 'collection-name'`
- * 2. Determines display name from `useAsTitle` or derives from slug
- * 3. Analyzes all fields to detect common patterns
- * 4. Determines if the collection is public (has `read: () => true`)
+ * 1. Locates the exported `CollectionConfig` object literal
+ * 2. Reads the collection slug from its `slug` property
+ * 3. Determines display name from `admin.useAsTitle` or derives from slug
+ * 4. Analyzes the `fields` array to detect common patterns
+ * 5. Classifies the `access` functions of each operation, and whether the
+ *    collection is public (`access.read` returns `true`)
+ * 6. Detects auth-enabled collections (`auth: true` or an options object)
+ * 7. Reads the `versions` config; collections with drafts get Payload's
+ *    `_status` field and count as having a status
+ * 8. Reads the `upload` config; upload collections get Payload's file
+ *    fields and a typed `sizes` group
  *
- * Pattern detection looks for these specific field names:
+ * Pattern detection looks for these field names by default, each of which
+ * can be renamed with `options.fieldMappings`:
  * - `slug` - URL-friendly identifier
  * - `status` - Draft/published state management
  * - `seo` - SEO metadata group
@@ -127,6 +641,9 @@ export function analyzeFields(content: string): FieldMetadata[] {
  *
  * @param content - The raw file content of a Payload collection file
  * @param filename - The filename for error reporting
+ * @param options - Extraction options; pass `filePath` so imported blocks
+ *   and field lists can be resolved relative to the collection file, and
+ *   `fieldMappings` to detect patterns on custom field names
  * @returns CollectionMetadata object or null if parsing fails
  *
  * @example
@@ -159,30 +676,89 @@ export function analyzeFields(content: string): FieldMetadata[] {
  */
 export function extractCollectionMetadata(
   content: string,
-  filename: string
+  filename: string,
+  options: ExtractOptions = {}
 ): CollectionMetadata | null {
   try {
-    // Extract slug
-    const slugMatch = content.match(/slug:\s*['"`]([^'"`]+)['"`]/);
-    if (!slugMatch) return null;
+    const sourceFile = parseSource(content, options.filePath ?? filename);
+    const config = findConfigObject(sourceFile);
+    if (!config) return null;
 
-    const slug = slugMatch[1];
-    if (!slug) return null;
+    // Extract slug
+    const slug = getStringProperty(config, 'slug');
+    if (!slug) {
+      throw new CollectionParseError(
+        'collection config has no static `slug`',
+        getLocation(config)
+      );
+    }
 
     // Extract display name from useAsTitle or default to slug
-    const titleMatch = content.match(/useAsTitle:\s*['"`]([^'"`]+)['"`]/);
-    let displayName =
-      titleMatch && titleMatch[1]
-        ? capitalize(titleMatch[1])
-        : capitalize(slug);
+    const admin = getObjectProperty(config, 'admin');
+    const useAsTitle = admin
+      ? getStringProperty(admin, 'useAsTitle')
+      : undefined;
+    let displayName = useAsTitle
+      ? toPascalCase(useAsTitle)
+      : toPascalCase(slug);
 
     // Special case: if useAsTitle is 'title', use the collection slug as display name
-    if (titleMatch && titleMatch[1] === 'title') {
-      displayName = capitalize(slug);
+    if (useAsTitle === 'title') {
+      displayName = toPascalCase(slug);
     }
 
     // Analyze fields
-    const fields = analyzeFields(content);
+    const fieldsArray = getProperty(config, 'fields');
+    const fields = fieldsArray ? analyzeFieldList(fieldsArray) : [];
+
+    // Auth collections get an `email` field from Payload unless they declare one
+    const isAuth = isAuthEnabled(getProperty(config, 'auth'));
+    if (isAuth && !fields.some((field) => field.name === 'email')) {
+      fields.unshift({ name: 'email', type: 'email', required: true });
+    }
+
+    // Uploads add Payload's file fields
+    const upload = analyzeUpload(getProperty(config, 'upload'));
+    if (upload) {
+      const uploadFields = getUploadFields(upload, displayName);
+      fields.push(
+        ...uploadFields.filter(
+          (uploadField) =>
+            !fields.some((field) => field.name === uploadField.name)
+        )
+      );
+    }
+
+    // Drafts add Payload's `_status` field
+    const versions = analyzeVersions(getProperty(config, 'versions'));
+    if (versions?.drafts && !fields.some((field) => field.name === '_status')) {
+      fields.push({
+        name: '_status',
+        type: 'select',
+        required: false,
+        options: ['draft', 'published'],
+      });
+    }
+
+    // Detect patterns using the configured field names
+    const fieldMappings = {
+      ...DEFAULT_FIELD_MAPPINGS,
+      ...options.fieldMappings,
+    };
+    const hasField = (name: string) => fields.some((f) => f.name === name);
+
+    // Determine access to each operation
+    const accessConfig = getObjectProperty(config, 'access');
+    const getAccess = (operation: keyof CollectionAccess) =>
+      analyzeAccess(
+        accessConfig ? getProperty(accessConfig, operation) : undefined
+      );
+    const access: CollectionAccess = {
+      create: getAccess('create'),
+      read: getAccess('read'),
+      update: getAccess('update'),
+      delete: getAccess('delete'),
+    };
 
     return {
       slug,
@@ -190,15 +766,100 @@ export function extractCollectionMetadata(
       pluralName: pluralize(displayName),
       filename,
       fields,
-      hasSlug: fields.some((f) => f.name === 'slug'),
-      hasStatus: fields.some((f) => f.name === 'status'),
-      hasSEO: fields.some((f) => f.name === 'seo'),
-      hasNavigation: fields.some((f) => f.name === 'showInNavigation'),
-      hasFeaturedImage: fields.some((f) => f.name === 'featuredImage'),
-      hasExcerpt: fields.some((f) => f.name === 'excerpt'),
-      hasTags: fields.some((f) => f.name === 'tags'),
-      hasAuthor: fields.some((f) => f.name === 'author'),
-      isPublic: content.includes('read: () => true'),
+      hasSlug: hasField(fieldMappings.slugField),
+      hasStatus: hasField(fieldMappings.statusField) || !!versions?.drafts,
+      hasSEO: hasField(fieldMappings.seoField),
+      hasNavigation: hasField(fieldMappings.navigationField),
+      hasFeaturedImage: hasField(fieldMappings.featuredImageField),
+      hasExcerpt: hasField(fieldMappings.excerptField),
+      hasTags: hasField(fieldMappings.tagsField),
+      hasAuthor: hasField(fieldMappings.authorField),
+      isPublic: access.read === 'public',
+      isAuth,
+      isLocalized: hasLocalizedFields(fields),
+      versions,
+      upload,
+      access,
+      fieldMappings,
+      titleField:
+        [useAsTitle, 'title'].find(
+          (name) => name && fields.some((field) => field.name === name)
+        ) ??
+        fields.find((field) => field.type === 'text')?.name ??
+        null,
+    };
+  } catch (error) {
+    console.error(
+      `Error parsing ${filename}:`,
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    return null;
+  }
+}
+
+export interface GlobalAccess {
+  read: AccessLevel;
+  update: AccessLevel;
+}
+
+export interface GlobalMetadata {
+  slug: string;
+  displayName: string;
+  filename: string;
+  fields: FieldMetadata[];
+  // Some field, at any depth, is localized
+  isLocalized: boolean;
+  // Access to each operation, from the global's `access` functions
+  access: GlobalAccess;
+}
+
+/**
+ * Extract global metadata from file content
+ *
+ * Reads the exported `GlobalConfig` object: its `slug`, `fields` (with the
+ * same analyzer as collections) and `read`/`update` access. The display name
+ * is the PascalCase slug, so `site-settings` becomes `SiteSettings`.
+ *
+ * @param content - The raw file content of a Payload global file
+ * @param filename - The filename for error reporting
+ * @param options - Extraction options; pass `filePath` so imported fields
+ *   can be resolved relative to the global file
+ * @returns GlobalMetadata object or null if parsing fails
+ */
+export function extractGlobalMetadata(
+  content: string,
+  filename: string,
+  options: ExtractOptions = {}
+): GlobalMetadata | null {
+  try {
+    const sourceFile = parseSource(content, options.filePath ?? filename);
+    const config = findConfigObject(sourceFile, ['GlobalConfig']);
+    if (!config) return null;
+
+    const slug = getStringProperty(config, 'slug');
+    if (!slug) {
+      throw new CollectionParseError(
+        'global config has no static `slug`',
+        getLocation(config)
+      );
+    }
+
+    const fieldsArray = getProperty(config, 'fields');
+    const fields = fieldsArray ? analyzeFieldList(fieldsArray) : [];
+
+    const accessConfig = getObjectProperty(config, 'access');
+    const getAccess = (operation: keyof GlobalAccess) =>
+      analyzeAccess(
+        accessConfig ? getProperty(accessConfig, operation) : undefined
+      );
+
+    return {
+      slug,
+      displayName: toPascalCase(slug),
+      filename,
+      fields,
+      isLocalized: hasLocalizedFields(fields),
+      access: { read: getAccess('read'), update: getAccess('update') },
     };
   } catch (error) {
     console.error(
@@ -209,6 +870,93 @@ export function extractCollectionMetadata(
   }
 }
 
+/**
+ * The field and value published documents are filtered on
+ *
+ * Collections with drafts use Payload's `_status: 'published'`; others use
+ * their `statusField` and `statusValues.published`.
+ */
+export function getPublishedFilter(
+  collection: CollectionMetadata,
+  statusValues: StatusValues = {}
+): { field: string; value: string } {
+  if (collection.versions?.drafts) {
+    return { field: '_status', value: 'published' };
+  }
+  return {
+    field: collection.fieldMappings.statusField,
+    value: statusValues.published ?? DEFAULT_STATUS_VALUES.published,
+  };
+}
+
+export interface LocalizationConfig {
+  locales: string[];
+  defaultLocale: string;
+}
+
+/**
+ * Read the `localization` settings of a Payload config file
+ *
+ * Locales may be codes (`['en', 'de']`) or objects with a `code`. Returns
+ * null when localization is disabled or can't be read statically.
+ *
+ * @example
+ * ```typescript
+ * const content = `
+ * export default buildConfig({
+ *   localization: { locales: ['en', { code: 'de', label: 'Deutsch' }], defaultLocale: 'en' },
+ * });
+ * `;
+ * extractLocalization(content, 'payload.config.ts');
+ * // Returns: { locales: ['en', 'de'], defaultLocale: 'en' }
+ * ```
+ */
+export function extractLocalization(
+  content: string,
+  filename: string
+): LocalizationConfig | null {
+  const config = findPayloadConfigObject(parseSource(content, filename));
+  const localization = config
+    ? getObjectProperty(config, 'localization')
+    : undefined;
+  const locales = localization ? getProperty(localization, 'locales') : null;
+  if (!localization || !locales) return null;
+
+  const codes = getArrayElements(locales).flatMap((locale) => {
+    const code = ts.isObjectLiteralExpression(locale)
+      ? getStringProperty(locale, 'code')
+      : getStringValue(locale);
+    return code ? [code] : [];
+  });
+  if (codes.length === 0) return null;
+
+  const defaultLocale = getStringProperty(localization, 'defaultLocale');
+  return {
+    locales: codes,
+    defaultLocale:
+      defaultLocale && codes.includes(defaultLocale)
+        ? defaultLocale
+        : codes[0]!,
+  };
+}
+
+/**
+ * Generate the type of a document fetched with `locale: 'all'`, where each
+ * top-level localized field holds one value per locale
+ */
+export function generateLocalizedType(
+  fields: FieldMetadata[],
+  prefix: string
+): string {
+  const names = fields
+    .filter((field) => field.localized)
+    .map((field) => JSON.stringify(field.name));
+
+  return names.length > 0
+    ? `export type ${prefix}Localized = Localized<${prefix}, ${names.join(' | ')}>;`
+    : '';
+}
+
 /**
  * Map Payload field types to TypeScript types
  *
@@ -221,7 +969,8 @@ export function extractCollectionMetadata(
  * 2. Provides special handling for specific field names (status, template)
  * 3. Returns 'any' for unknown types as a fallback
  *
- * Special field name handling:
+ * Special field name handling, used when a field's options can't be read
+ * statically (see `getFieldTypeScriptType` for option unions):
  * - `status` fields with `select` type → `"draft" | "published"`
  * - `template` fields with `select` type → `"default" | "full-width" | "sidebar" | "landing"`
  *
@@ -255,6 +1004,7 @@ export function getTypeScriptType(
     relationship: 'any',
     array: 'any[]',
     group: 'any',
+    tab: 'any',
     blocks: 'any[]',
   };
 
@@ -270,6 +1020,539 @@ export function getTypeScriptType(
   return typeMap[payloadType] || 'any';
 }
 
+export type TypeMapper = (payloadType: string, fieldName?: string) => string;
+
+export interface FieldTypeOptions {
+  // Indentation of the property the type belongs to
+  indent?: string;
+  // Maps scalar Payload types to TypeScript (default: getTypeScriptType)
+  mapType?: TypeMapper;
+  // Resolves a collection slug to its generated interface name
+  resolveRelation?: (slug: string) => string | undefined;
+  // Status field typed from the configured `statusValues`, completed with the
+  // defaults, when its options aren't static; without configured values it is
+  // mapped with `mapType`
+  statusField?: string;
+  statusValues?: StatusValues;
+}
+
+/**
+ * Get the TypeScript type of a field, including its nested structure
+ *
+ * - `group` and named `tab` fields become inline object types
+ * - `array` fields become arrays of inline row types (rows carry an `id`)
+ * - Fields with an `interfaceName` reference the named interface instead,
+ *   see `generateNamedInterfaces`
+ * - `select` and `radio` fields with static options become literal unions,
+ *   arrays of the union when `hasMany` is set; the `statusField` falls back
+ *   to a union of the configured `statusValues`, with the defaults of the
+ *   keys they don't set, when its options aren't static
+ * - `relationship` and `upload` fields become `string | Target` (the ID or
+ *   the populated document) when `resolveRelation` is given; polymorphic
+ *   relations become a union of `{ relationTo; value }` objects, and uploads
+ *   to unknown collections use the base `Media` type
+ * - `blocks` fields become arrays of their block interfaces, see
+ *   `generateBlockInterfaces`
+ * - All other fields are mapped with `mapType`
+ *
+ * @example
+ * ```typescript
+ * getFieldTypeScriptType({
+ *   name: 'links',
+ *   type: 'array',
+ *   required: false,
+ *   fields: [{ name: 'url', type: 'text', required: true }],
+ * });
+ * // 'Array<{\n  id?: string;\n  url: string;\n}>'
+ * ```
+ */
+export function getFieldTypeScriptType(
+  field: FieldMetadata,
+  options: FieldTypeOptions = {}
+): string {
+  const { indent = '', mapType = getTypeScriptType } = options;
+
+  if (field.options && field.options.length > 0) {
+    const union = field.options.map((value) => JSON.stringify(value));
+    return field.hasMany ? `(${union.join(' | ')})[]` : union.join(' | ');
+  }
+
+  if (
+    field.type === 'relationship' &&
+    field.relationTo &&
+    options.resolveRelation
+  ) {
+    const type = getRelationshipType(field.relationTo, options.resolveRelation);
+    return field.hasMany ? `Array<${type}>` : type;
+  }
+
+  // Uploads to collections that weren't scanned fall back to the base Media type
+  if (field.type === 'upload' && field.relationTo && options.resolveRelation) {
+    const { resolveRelation } = options;
+    const type = getRelationshipType(
+      field.relationTo,
+      (slug) => resolveRelation(slug) ?? 'Media'
+    );
+    return field.hasMany ? `Array<${type}>` : type;
+  }
+
+  if (field.type === 'blocks' && field.blocks && field.blocks.length > 0) {
+    return `Array<${field.blocks.map(getBlockInterfaceName).join(' | ')}>`;
+  }
+
+  const configuredStatusValues = Object.values(
+    options.statusValues ?? {}
+  ).filter((value): value is string => typeof value === 'string');
+  if (
+    field.name === options.statusField &&
+    configuredStatusValues.length > 0 &&
+    field.type === 'select'
+  ) {
+    // A partial override keeps the defaults of the keys it doesn't set
+    const statusValues = Object.values({
+      ...DEFAULT_STATUS_VALUES,
+      ...options.statusValues,
+    }).filter((value): value is string => typeof value === 'string');
+    return [...new Set(statusValues)]
+      .map((value) => JSON.stringify(value))
+      .join(' | ');
+  }
+
+  if (!field.fields || !isStructuralType(field.type)) {
+    const type = mapType(field.type, field.name);
+    return field.hasMany && field.type === 'select' ? `${type}[]` : type;
+  }
+
+  const objectType = field.interfaceName
+    ? field.interfaceName
+    : `{
+${generateFieldDefinitions(field.fields, {
+  ...options,
+  indent: `${indent}  `,
+  includeRowId: field.type === 'array',
+})}
+${indent}}`;
+
+  if (field.type === 'array') {
+    return field.interfaceName ? `${objectType}[]` : `Array<${objectType}>`;
+  }
+
+  return objectType;
+}
+
+/**
+ * Generate interface property lines for a list of fields
+ */
+export function generateFieldDefinitions(
+  fields: FieldMetadata[],
+  options: FieldTypeOptions & { includeRowId?: boolean } = {}
+): string {
+  const { indent = '  ', includeRowId = false } = options;
+
+  const lines = fields.map((field) => {
+    const optional = field.required ? '' : '?';
+    const type = getFieldTypeScriptType(field, { ...options, indent });
+    return `${indent}${formatPropertyName(field.name)}${optional}: ${type};`;
+  });
+
+  if (includeRowId && !fields.some((field) => field.name === 'id')) {
+    lines.unshift(`${indent}id?: string;`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate named interfaces for fields that declare an `interfaceName`
+ *
+ * Nested fields are visited depth-first so every referenced interface is
+ * emitted exactly once.
+ */
+export function generateNamedInterfaces(
+  fields: FieldMetadata[],
+  options: FieldTypeOptions = {}
+): string {
+  const interfaces = new Map<string, string>();
+
+  const visit = (list: FieldMetadata[]): void => {
+    list.forEach((field) => {
+      if (!field.fields || !isStructuralType(field.type)) return;
+
+      visit(field.fields);
+
+      if (field.interfaceName && !interfaces.has(field.interfaceName)) {
+        interfaces.set(
+          field.interfaceName,
+          `export interface ${field.interfaceName} {
+${generateFieldDefinitions(field.fields, {
+  ...options,
+  indent: '  ',
+  includeRowId: field.type === 'array',
+})}
+}`
+        );
+      }
+    });
+  };
+
+  visit(fields);
+  return Array.from(interfaces.values()).join('\n\n');
+}
+
+/**
+ * Generate an exported `const` array of option values per select/radio field
+ *
+ * Constants are named after the type prefix and the field path, e.g.
+ * `PostsStatusOptions` for `status` or `PostsSeoRobotsOptions` for
+ * `seo.robots`, so UI code can build dropdowns from them. Leading underscores
+ * are kept, so Payload's `_status` becomes `Posts_StatusOptions` and doesn't
+ * collide with a `status` field.
+ */
+export function generateOptionConstants(
+  fields: FieldMetadata[],
+  prefix: string
+): string {
+  const constants: string[] = [];
+
+  const visit = (list: FieldMetadata[], path: string): void => {
+    list.forEach((field) => {
+      const underscores = /^_*/.exec(field.name)?.[0] ?? '';
+      const fieldPath = `${path}${underscores}${toPascalCase(field.name)}`;
+
+      if (field.options && field.options.length > 0) {
+        const values = field.options.map((value) => JSON.stringify(value));
+        constants.push(
+          `export const ${fieldPath}Options = [${values.join(', ')}] as const;`
+        );
+      }
+
+      if (field.fields && isStructuralType(field.type)) {
+        visit(field.fields, fieldPath);
+      }
+    });
+  };
+
+  visit(fields, prefix);
+  return constants.join('\n');
+}
+
+/**
+ * `where` operator types per field type, declared in the generated base types
+ */
+const QUERY_OPERATOR_TYPES: Record<string, string> = {
+  text: 'TextOperators',
+  textarea: 'TextOperators',
+  email: 'TextOperators',
+  code: 'TextOperators',
+  richText: 'RichTextOperators',
+  number: 'NumberOperators',
+  date: 'DateOperators',
+  checkbox: 'BooleanOperators',
+  relationship: 'IDOperators',
+  upload: 'IDOperators',
+  point: 'PointOperators',
+  json: 'JSONOperators',
+};
+
+const SORTABLE_TYPES = new Set([
+  'text',
+  'textarea',
+  'email',
+  'code',
+  'number',
+  'date',
+  'checkbox',
+  'select',
+  'radio',
+  'relationship',
+  'upload',
+]);
+
+export interface QueryPath {
+  // Dot-notation path, e.g. `seo.title`
+  path: string;
+  // Operator type the path accepts, e.g. `TextOperators`
+  operators: string;
+  sortable: boolean;
+}
+
+/**
+ * Collect the field paths a collection can be queried and sorted by
+ *
+ * Group, tab and array children are reachable with dot notation (array
+ * children can't be sorted by), and `blocks` fields by their `blockType`.
+ * `id`, `createdAt` and `updatedAt` are always included.
+ */
+export function collectQueryPaths(
+  fields: FieldMetadata[],
+  options: FieldTypeOptions = {}
+): QueryPath[] {
+  const paths = new Map<string, QueryPath>();
+  const add = (path: string, operators: string, sortable: boolean) => {
+    if (!paths.has(path)) paths.set(path, { path, operators, sortable });
+  };
+
+  const visit = (list: FieldMetadata[], prefix: string, inArray: boolean) => {
+    list.forEach((field) => {
+      const path = `${prefix}${field.name}`;
+
+      if (field.type === 'select' || field.type === 'radio') {
+        const valueType = getFieldTypeScriptType(
+          { ...field, hasMany: false },
+          options
+        );
+        add(
+          path,
+          valueType === 'string'
+            ? 'SelectOperators'
+            : `SelectOperators<${valueType}>`,
+          !inArray
+        );
+      } else if (field.type === 'blocks') {
+        const slugs = (field.blocks ?? []).map((block) =>
+          JSON.stringify(block.slug)
+        );
+        if (slugs.length > 0) {
+          add(
+            `${path}.blockType`,
+            `SelectOperators<${slugs.join(' | ')}>`,
+            false
+          );
+        }
+      } else if (field.fields && isStructuralType(field.type)) {
+        visit(field.fields, `${path}.`, inArray || field.type === 'array');
+      } else if (QUERY_OPERATOR_TYPES[field.type]) {
+        add(
+          path,
+          QUERY_OPERATOR_TYPES[field.type]!,
+          !inArray && SORTABLE_TYPES.has(field.type)
+        );
+      }
+    });
+  };
+
+  add('id', 'IDOperators', true);
+  visit(fields, '', false);
+  add('createdAt', 'DateOperators', true);
+  add('updatedAt', 'DateOperators', true);
+
+  return Array.from(paths.values());
+}
+
+/**
+ * Generate the typed `where`, `sort` and query options of a collection
+ *
+ * @example
+ * ```typescript
+ * export interface PostsWhereFields {
+ *   id?: IDOperators;
+ *   title?: TextOperators;
+ *   'seo.title'?: TextOperators;
+ * }
+ *
+ * export type PostsWhere = Where<PostsWhereFields>;
+ * export type PostsSort = Sort<"id" | "title" | "seo.title">;
+ * export type PostsQueryOptions = QueryOptions<PostsWhere, PostsSort>;
+ * ```
+ */
+export function generateQueryTypes(
+  fields: FieldMetadata[],
+  prefix: string,
+  options: FieldTypeOptions = {}
+): string {
+  const paths = collectQueryPaths(fields, options);
+  const whereFields = paths
+    .map(
+      ({ path, operators }) => `  ${formatPropertyName(path)}?: ${operators};`
+    )
+    .join('\n');
+  const sortFields = paths
+    .filter(({ sortable }) => sortable)
+    .map(({ path }) => JSON.stringify(path))
+    .join(' | ');
+
+  return `export interface ${prefix}WhereFields {
+${whereFields}
+}
+
+export type ${prefix}Where = Where<${prefix}WhereFields>;
+export type ${prefix}Sort = Sort<${sortFields}>;
+export type ${prefix}Select = SelectFields<${prefix}>;
+export type ${prefix}QueryOptions<S extends ${prefix}Select = ${prefix}Select> = QueryOptions<${prefix}Where, ${prefix}Sort, S>;`;
+}
+
+/**
+ * Names of the base query types used by `generateQueryTypes`
+ */
+export function getQueryTypeImports(
+  fields: FieldMetadata[],
+  options: FieldTypeOptions = {}
+): string[] {
+  const operators = collectQueryPaths(fields, options).map(({ operators }) =>
+    operators.replace(/<.*$/, '')
+  );
+  return Array.from(
+    new Set([...operators, 'QueryOptions', 'SelectFields', 'Sort', 'Where'])
+  ).sort();
+}
+
+/**
+ * Collect the collection slugs referenced by relationship and upload fields
+ */
+export function collectRelationTargets(fields: FieldMetadata[]): string[] {
+  const targets = new Set<string>();
+
+  const visit = (list: FieldMetadata[]): void => {
+    list.forEach((field) => {
+      if (
+        (field.type === 'relationship' || field.type === 'upload') &&
+        field.relationTo
+      ) {
+        const slugs = Array.isArray(field.relationTo)
+          ? field.relationTo
+          : [field.relationTo];
+        slugs.forEach((slug) => targets.add(slug));
+      }
+      if (field.fields) visit(field.fields);
+    });
+  };
+
+  visit(fields);
+  return Array.from(targets);
+}
+
+function getRelationshipType(
+  relationTo: string | string[],
+  resolveRelation: (slug: string) => string | undefined
+): string {
+  const valueType = (slug: string): string => {
+    const target = resolveRelation(slug);
+    return target
+      ? `string | ${target}`
+      : 'string | { id: string; [key: string]: unknown }';
+  };
+
+  if (!Array.isArray(relationTo)) {
+    return valueType(relationTo);
+  }
+
+  return relationTo
+    .map(
+      (slug) =>
+        `{ relationTo: ${JSON.stringify(slug)}; value: ${valueType(slug)} }`
+    )
+    .join(' | ');
+}
+
+/**
+ * Get the interface name of a block: its `interfaceName` or `${Slug}Block`
+ */
+export function getBlockInterfaceName(block: BlockMetadata): string {
+  if (block.interfaceName) return block.interfaceName;
+  const name = toPascalCase(block.slug);
+  return name.endsWith('Block') ? name : `${name}Block`;
+}
+
+/**
+ * Collect every block used by `blocks` fields, including blocks nested in
+ * other blocks, deduplicated by interface name
+ */
+export function collectBlocks(fields: FieldMetadata[]): BlockMetadata[] {
+  const blocks = new Map<string, BlockMetadata>();
+
+  const visit = (list: FieldMetadata[]): void => {
+    list.forEach((field) => {
+      field.blocks?.forEach((block) => {
+        const name = getBlockInterfaceName(block);
+        if (blocks.has(name)) return;
+        blocks.set(name, block);
+        visit(block.fields);
+      });
+      if (field.fields) visit(field.fields);
+    });
+  };
+
+  visit(fields);
+  return Array.from(blocks.values());
+}
+
+/**
+ * Collect the `blocks` fields of a collection with the name of their union
+ * type, e.g. `PostsLayoutBlock` for a `layout` field on `Posts`
+ */
+export function collectBlockFields(
+  fields: FieldMetadata[],
+  prefix: string
+): Array<{ field: FieldMetadata; typeName: string }> {
+  const blockFields: Array<{ field: FieldMetadata; typeName: string }> = [];
+
+  const visit = (list: FieldMetadata[], path: string): void => {
+    list.forEach((field) => {
+      const fieldPath = `${path}${toPascalCase(field.name)}`;
+
+      if (field.type === 'blocks' && field.blocks && field.blocks.length > 0) {
+        blockFields.push({ field, typeName: `${fieldPath}Block` });
+      }
+
+      if (field.fields && isStructuralType(field.type)) {
+        visit(field.fields, fieldPath);
+      }
+    });
+  };
+
+  visit(fields, prefix);
+  return blockFields;
+}
+
+/**
+ * Generate one interface per block with a `blockType` literal
+ */
+export function generateBlockInterfaces(
+  blocks: BlockMetadata[],
+  options: FieldTypeOptions = {}
+): string {
+  return blocks
+    .map((block) => {
+      const fieldDefinitions = generateFieldDefinitions(
+        block.fields.filter(
+          (field) => !['id', 'blockName', 'blockType'].includes(field.name)
+        ),
+        { ...options, indent: '  ' }
+      );
+      const namedInterfaces = generateNamedInterfaces(block.fields, options);
+
+      return `${namedInterfaces ? `${namedInterfaces}\n\n` : ''}export interface ${getBlockInterfaceName(block)} {
+  id?: string;
+  blockName?: string;
+  blockType: ${JSON.stringify(block.slug)};${fieldDefinitions ? `\n${fieldDefinitions}` : ''}
+}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Generate a union type per `blocks` field, see `collectBlockFields`
+ */
+export function generateBlockUnionTypes(
+  fields: FieldMetadata[],
+  prefix: string
+): string {
+  return collectBlockFields(fields, prefix)
+    .map(
+      ({ field, typeName }) =>
+        `export type ${typeName} = ${(field.blocks ?? []).map(getBlockInterfaceName).join(' | ')};`
+    )
+    .join('\n');
+}
+
+function isStructuralType(type: string): boolean {
+  return type === 'group' || type === 'array' || type === 'tab';
+}
+
+function formatPropertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
 /**
  * Deduplicate fields to avoid conflicts
  */
@@ -289,6 +1572,31 @@ export function capitalize(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
 }
 
+export function toPascalCase(str: string): string {
+  return str
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(capitalize)
+    .join('');
+}
+
+export function toCamelCase(str: string): string {
+  const pascal = toPascalCase(str);
+  return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+/**
+ * Variable names of a collection's documents in generated code: `list` for
+ * an array of them and `item` for one, e.g. `blogPosts` and `blogPost`
+ */
+export function getDocumentVariables(
+  collection: Pick<CollectionMetadata, 'slug' | 'displayName'>
+): { list: string; item: string } {
+  const list = toCamelCase(collection.slug);
+  const item = toCamelCase(singularize(collection.displayName));
+  return { list, item: item === list ? 'item' : item };
+}
+
 export function pluralize(str: string): string {
   // Handle special cases - words that are already plural or have irregular plurals
   if (str === 'Media') return 'Media';
@@ -299,6 +1607,9 @@ export function pluralize(str: string): string {
   if (str === 'Tutorials') return 'Tutorials'; // Already plural
   if (str === 'Documentation') return 'Documentation'; // Already plural
 
+  // Slugs are usually plural already (`documents`), unlike `status` or `class`
+  if (/[^isu]s$/.test(str)) return str;
+
   // Standard pluralization
   if (str.endsWith('y')) {
     return str.slice(0, -1) + 'ies';
@@ -318,7 +1629,8 @@ export function singularize(str: string): string {
   // Standard singularization
   if (str.endsWith('ies')) {
     return str.slice(0, -3) + 'y';
-  } else if (str.endsWith('es')) {
+  } else if (/(s|x|z|ch|sh)es$/.test(str)) {
+    // `Statuses`, `Boxes`, but not `Articles`
     return str.slice(0, -2);
   } else if (str.endsWith('s')) {
     return str.slice(0, -1);
@@ -5,7 +5,313 @@
  * frameworks and use cases.
  */
 
-import type { CollectionMetadata } from './fieldAnalyzer.js';
+import type {
+  CollectionMetadata,
+  GlobalMetadata,
+  LocalizationConfig,
+  StatusValues,
+} from './fieldAnalyzer.js';
+
+/**
+ * Values available to a template, looked up by dotted path
+ */
+export type TemplateContext = Record<string, unknown>;
+
+/**
+ * Error thrown when a template cannot be parsed or rendered
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+interface BlockNode {
+  kind: 'each' | 'if' | 'unless';
+  path: string;
+  children: TemplateNode[];
+  inverse: TemplateNode[];
+}
+
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'value'; path: string }
+  | { kind: 'partial'; name: string }
+  | BlockNode;
+
+interface TemplateScope {
+  value: unknown;
+  meta?: Record<string, unknown>;
+}
+
+const TAG_PATTERN = /\\\{\{|\{\{\s*([#/>]?)\s*([^}]*?)\s*\}\}/g;
+
+// Block tags on a line of their own don't leave an empty line behind
+const STANDALONE_TAG_PATTERN =
+  /^[ \t]*(\{\{\s*(?:[#/][^}]*|else\s*)\}\})[ \t]*(?:\r?\n|$)/gm;
+
+/**
+ * Render a template with a Handlebars-like syntax:
+ *
+ * - `{{path.to.value}}` inserts a value from the context
+ * - `{{#each items}}...{{/each}}` repeats for every item (`{{this}}`,
+ *   `{{@index}}`, `{{@first}}` and `{{@last}}` are available inside)
+ * - `{{#if path}}...{{else}}...{{/if}}` and `{{#unless path}}...{{/unless}}`
+ * - `{{> name}}` inserts a partial verbatim
+ * - `\{{` produces a literal `{{`
+ *
+ * Names that aren't found in the current `each` item fall back to the
+ * enclosing scopes. Missing values render as an empty string.
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  partials: Record<string, string> = {}
+): string {
+  const nodes = parseTemplate(template);
+  return renderNodes(nodes, [{ value: context }], partials);
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const source = template.replace(STANDALONE_TAG_PATTERN, '$1');
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; target: TemplateNode[] }> = [];
+  let target = root;
+  let lastIndex = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, sigil = '', body = ''] = match;
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      target.push({ kind: 'text', value: source.slice(lastIndex, index) });
+    }
+    lastIndex = index + tag.length;
+
+    if (tag === '\\{{') {
+      target.push({ kind: 'text', value: '{{' });
+      continue;
+    }
+
+    if (sigil === '>') {
+      target.push({ kind: 'partial', name: body });
+    } else if (sigil === '#') {
+      const [helper, path = ''] = body.split(/\s+/, 2);
+      if (helper !== 'each' && helper !== 'if' && helper !== 'unless') {
+        throw new TemplateError(`Unknown block helper "{{#${helper}}}"`);
+      }
+      const node: BlockNode = { kind: helper, path, children: [], inverse: [] };
+      target.push(node);
+      stack.push({ node, target });
+      target = node.children;
+    } else if (sigil === '/') {
+      const open = stack.pop();
+      if (!open || open.node.kind !== body) {
+        throw new TemplateError(`Unexpected "{{/${body}}}"`);
+      }
+      target = open.target;
+    } else if (body === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || target !== open.node.children) {
+        throw new TemplateError('Unexpected "{{else}}"');
+      }
+      target = open.node.inverse;
+    } else {
+      target.push({ kind: 'value', path: body });
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    const { kind, path } = unclosed.node;
+    throw new TemplateError(`Unclosed "{{#${kind} ${path}}}"`);
+  }
+
+  if (lastIndex < source.length) {
+    target.push({ kind: 'text', value: source.slice(lastIndex) });
+  }
+
+  return root;
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  scopes: TemplateScope[],
+  partials: Record<string, string>
+): string {
+  return nodes
+    .map((node) => {
+      switch (node.kind) {
+        case 'text':
+          return node.value;
+        case 'value':
+          return stringifyValue(lookupValue(node.path, scopes));
+        case 'partial':
+          if (!(node.name in partials)) {
+            throw new TemplateError(`Unknown partial "${node.name}"`);
+          }
+          return partials[node.name];
+        case 'if':
+        case 'unless': {
+          const truthy = isTruthy(lookupValue(node.path, scopes));
+          const branch =
+            truthy === (node.kind === 'if') ? node.children : node.inverse;
+          return renderNodes(branch, scopes, partials);
+        }
+        case 'each': {
+          const items = lookupValue(node.path, scopes);
+          if (!Array.isArray(items) || items.length === 0) {
+            return renderNodes(node.inverse, scopes, partials);
+          }
+          return items
+            .map((item, index) =>
+              renderNodes(
+                node.children,
+                [
+                  {
+                    value: item,
+                    meta: {
+                      '@index': index,
+                      '@first': index === 0,
+                      '@last': index === items.length - 1,
+                    },
+                  },
+                  ...scopes,
+                ],
+                partials
+              )
+            )
+            .join('');
+        }
+      }
+    })
+    .join('');
+}
+
+function lookupValue(path: string, scopes: TemplateScope[]): unknown {
+  const [current] = scopes;
+  if (path === 'this' || path === '.') return current?.value;
+  if (path.startsWith('@')) return current?.meta?.[path];
+
+  const [head = '', ...rest] = path.replace(/^this\./, '').split('.');
+  const scope = path.startsWith('this.')
+    ? current
+    : scopes.find(({ value }) => getMember(value, head) !== undefined);
+
+  return rest.reduce(getMember, getMember(scope?.value, head));
+}
+
+function getMember(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(stringifyValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * User overrides for one of the built-in templates
+ */
+export interface TemplateOverrides {
+  template?: string; // Replaces the whole template
+  sections?: Record<string, string>; // Replaces individual sections by name
+}
+
+/**
+ * Render a built-in template whose sections may be overridden
+ *
+ * Sections are generated code, inserted with `{{> name}}`. A section
+ * override is itself a template: it can use the context, the other
+ * built-in sections and `{{> default}}` for the section it replaces.
+ * Templates also see the resolved sections as `sections`.
+ */
+export function renderSectionedTemplate(
+  defaultTemplate: string,
+  sections: Record<string, string>,
+  context: TemplateContext,
+  overrides: TemplateOverrides = {}
+): string {
+  const resolved = { ...sections };
+
+  for (const [name, override] of Object.entries(overrides.sections ?? {})) {
+    resolved[name] = renderTemplate(override, context, {
+      ...sections,
+      default: sections[name] ?? '',
+    });
+  }
+
+  return renderTemplate(
+    overrides.template ?? defaultTemplate,
+    { ...context, sections: resolved },
+    resolved
+  );
+}
+
+/**
+ * Default template for generated collection type files
+ */
+export const DEFAULT_COLLECTION_TYPE_TEMPLATE = `{{> header}}
+
+{{> imports}}
+
+{{#if sections.interfaces}}
+{{> interfaces}}
+
+{{/if}}
+export interface {{displayName}}{{#if interfaceExtends}} extends {{interfaceExtends}}{{/if}} {
+  id: string;
+{{> fields}}
+  createdAt: string;
+  updatedAt: string;
+}
+
+{{> utilityTypes}}
+
+// Query types
+{{> queryTypes}}
+{{#if sections.blockUnions}}
+
+// Block unions for blocks fields
+{{> blockUnions}}
+{{/if}}
+{{#if sections.optionConstants}}
+
+// Option values for select and radio fields
+{{> optionConstants}}
+{{/if}}
+`;
+
+/**
+ * Default template for generated collection clients
+ */
+export const DEFAULT_API_CLIENT_TEMPLATE = `{{> header}}
+
+{{> imports}}
+
+export class {{displayName}}Client extends BasePayloadClient {
+{{> methods}}
+}
+`;
+
+/**
+ * Default template for generated index and detail routes
+ */
+export const DEFAULT_ROUTE_TEMPLATE = `{{> imports}}
+
+{{> meta}}
+
+{{> loader}}
+
+{{> component}}`;
 
 /**
  * Generate TypeScript interface for a collection
@@ -13,15 +319,10 @@ import type { CollectionMetadata } from './fieldAnalyzer.js';
 export function generateCollectionType(collection: CollectionMetadata): string {
   const { displayName, fields } = collection;
 
-  const fieldDefinitions = fields
-    .map((field) => {
-      const optional = field.required ? '' : '?';
-      const type = getTypeScriptType(field.type);
-      return `  ${field.name}${optional}: ${type};`;
-    })
-    .join('\n');
+  const fieldDefinitions = generateFieldDefinitions(fields);
+  const namedInterfaces = generateNamedInterfaces(fields);
 
-  return `export interface ${displayName} {
+  return `${namedInterfaces ? `${namedInterfaces}\n\n` : ''}export interface ${displayName} {
   id: string;
 ${fieldDefinitions}
   createdAt: string;
@@ -32,7 +333,9 @@ ${fieldDefinitions}
 /**
  * Generate base types template
  */
-export function generateBaseTypesTemplate(): string {
+export function generateBaseTypesTemplate(
+  localization: LocalizationConfig | null = null
+): string {
   return `/**
  * Base types for web app
  * Generated from Payload CMS collections
@@ -54,6 +357,69 @@ export interface PayloadResponse<T> {
   nextPage: number | null;
 }
 
+// Responses of create, update and delete by ID
+export interface PayloadDocResponse<T> {
+  doc: T;
+  message: string;
+}
+
+// Responses of bulk update and delete
+export interface PayloadBulkResponse<T> {
+  docs: T[];
+  errors: Array<{ id: string; message: string }>;
+}
+
+// Responses of global updates
+export interface PayloadGlobalResponse<T> {
+  result: T;
+  message: string;
+}
+
+// A saved version of a document in a collection with \`versions\` enabled
+export interface PayloadVersion<T> {
+  id: string;
+  parent: string | T;
+  version: T;
+  createdAt: string;
+  updatedAt: string;
+  // Saved by autosave rather than by publishing or saving a draft
+  autosave?: boolean;
+  // The document's newest version
+  latest?: boolean;
+}
+
+// Auth types
+export interface LoginResponse<T> {
+  user: T;
+  token?: string;
+  exp?: number;
+  message: string;
+}
+
+export interface MeResponse<T> {
+  user: T | null;
+  token?: string;
+  exp?: number;
+  collection?: string;
+}
+
+export interface RefreshTokenResponse<T> {
+  user: T;
+  refreshedToken: string;
+  exp: number;
+  message?: string;
+}
+
+export interface ResetPasswordResponse<T> {
+  user: T;
+  token?: string;
+  message?: string;
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
 // Media type
 export interface Media {
   id: string;
@@ -68,14 +434,11 @@ export interface Media {
   updatedAt: string;
 }
 
-// Query types
-export interface QueryOptions {
-  limit?: number;
-  page?: number;
-  where?: any;
-  sort?: string;
-  draft?: boolean;
-}
+${generateLocaleTypes(localization)}
+
+${generateQueryHelperTypes()}
+
+${generateRelationHelperTypes()}
 
 // Navigation types
 export interface NavigationItem {
@@ -112,200 +475,2108 @@ export interface FormSchema {
 }
 
 /**
- * Generate base client template
+ * Generate relationship helper types
+ *
+ * Relationship fields are generated as `string | Target` so documents type
+ * check at any `depth`. `Populated<T, Depth>` narrows those fields to
+ * the populated documents, `Depth` levels deep.
  */
-export function generateBaseClientTemplate(
-  baseUrl: string = 'env.CMS_API_URL'
-): string {
-  return `/**
- * Base Payload client class
- * Generated from Payload CMS collections
+export function generateRelationHelperTypes(): string {
+  return `// Relationship types
+// Relationship fields hold an ID or the populated document depending on the
+// \`depth\` of the query. Populated<T, Depth> narrows them to the populated form.
+type PrevDepth = [0, 0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+export type Populated<T, Depth extends number = 1> = [Depth] extends [0]
+  ? T
+  : { [K in keyof T]: PopulatedValue<T[K], Depth> };
+
+type PopulatedValue<V, Depth extends number> = [
+  Exclude<V, string | null | undefined>,
+] extends [never]
+  ? V
+  : string extends V
+    ? PopulatedDocument<Exclude<V, string>, Depth>
+    : V extends readonly (infer Item)[]
+      ? PopulatedValue<Item, Depth>[]
+      : V extends object
+        ? Populated<V, Depth>
+        : V;
+
+type PopulatedDocument<V, Depth extends number> = V extends object
+  ? Populated<V, PrevDepth[Depth]>
+  : V;`;
+}
+
+/**
+ * Generate locale types from the Payload `localization` config
  *
- * DO NOT EDIT MANUALLY - Run collection-registry to regenerate
+ * Without a config, `Locale` is any string and there is no locale list.
  */
+export function generateLocaleTypes(
+  localization: LocalizationConfig | null = null
+): string {
+  const locales = localization
+    ? `// Locales from the Payload localization config
+export const LOCALES = [${localization.locales.map((locale) => JSON.stringify(locale)).join(', ')}] as const;
+export type Locale = (typeof LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = ${JSON.stringify(localization.defaultLocale)};
 
-import { env } from '../env';
-import type { PayloadResponse, QueryOptions } from '../types';
+export function isLocale(value: string | undefined): value is Locale {
+  return (LOCALES as readonly (string | undefined)[]).includes(value);
+}`
+    : `// Locale codes (no localization config was found)
+export type Locale = string;`;
 
-export abstract class BasePayloadClient {
-  protected baseUrl: string;
+  return `${locales}
 
-  constructor() {
-    this.baseUrl = ${baseUrl};
-  }
+// A document fetched with \`locale: 'all'\`: localized fields hold a value per locale
+export type Localized<T, K extends keyof T> = Omit<T, K> & {
+  [P in keyof Pick<T, K>]: Partial<Record<Locale, T[P]>>;
+};`;
+}
 
-  protected async fetch<T>(endpoint: string, options?: RequestInit): Promise<T> {
-    const url = \`\${this.baseUrl}\${endpoint}\`;
-    const response = await fetch(url, {
-      headers: {
-        "Content-Type": "application/json",
-        ...options?.headers,
-      },
-      ...options,
-    });
+/**
+ * Generate query helper types
+ *
+ * Collection type files combine these into `${Collection}Where` and
+ * `${Collection}Sort` types, so `where` only accepts the collection's field
+ * paths with the operators their field type supports.
+ */
+export function generateQueryHelperTypes(): string {
+  return `// Query types
+// Operators accepted by each kind of field in a \`where\` query
+export interface EqualityOperators<T> {
+  equals?: T;
+  not_equals?: T;
+  in?: T[];
+  not_in?: T[];
+  exists?: boolean;
+}
 
-    if (!response.ok) {
-      throw new Error(\`HTTP error! status: \${response.status}\`);
-    }
+export interface IDOperators extends EqualityOperators<string> {
+  all?: string[];
+}
 
-    return response.json();
-  }
+export interface TextOperators extends EqualityOperators<string> {
+  all?: string[];
+  like?: string;
+  contains?: string;
+}
 
-  protected buildQueryParams(options?: QueryOptions): URLSearchParams {
-    const params = new URLSearchParams();
+export interface NumberOperators extends EqualityOperators<number> {
+  greater_than?: number;
+  greater_than_equal?: number;
+  less_than?: number;
+  less_than_equal?: number;
+}
 
-    if (options?.limit) params.set("limit", options.limit.toString());
-    if (options?.page) params.set("page", options.page.toString());
-    if (options?.sort) params.set("sort", options.sort);
-    if (options?.draft) params.set("draft", "true");
-    if (options?.where) params.set("where", JSON.stringify(options.where));
+export interface DateOperators extends EqualityOperators<string | Date> {
+  greater_than?: string | Date;
+  greater_than_equal?: string | Date;
+  less_than?: string | Date;
+  less_than_equal?: string | Date;
+}
 
-    return params;
-  }
-}`;
+export interface BooleanOperators {
+  equals?: boolean;
+  not_equals?: boolean;
+  exists?: boolean;
 }
 
-/**
- * Generate collection client methods
- */
-export function generateCollectionClientMethods(
-  collection: CollectionMetadata
-): string {
-  const { slug, displayName, pluralName, hasSlug, hasStatus, hasNavigation } =
-    collection;
+export interface SelectOperators<T extends string = string>
+  extends EqualityOperators<T> {
+  all?: T[];
+}
 
-  const methods = [];
+export interface GeoJSONGeometry {
+  type: string;
+  coordinates: unknown[];
+}
 
-  // Get all items
-  methods.push(`  /**
-   * Get all ${pluralName.toLowerCase()} with optional filtering
-   */
-  async get${pluralName}List(options?: QueryOptions): Promise<PayloadResponse<${displayName}>> {
-    const params = this.buildQueryParams(options);
-    return this.fetch<PayloadResponse<${displayName}>>(\`/${slug}?\${params.toString()}\`);
-  }`);
+export interface PointOperators {
+  equals?: [number, number];
+  exists?: boolean;
+  // [longitude, latitude, maxDistance?, minDistance?] in meters
+  near?: [number, number, number?, number?] | string;
+  within?: GeoJSONGeometry;
+  intersects?: GeoJSONGeometry;
+}
 
-  // Get single item by slug
-  if (hasSlug) {
-    methods.push(`  /**
-   * Get a single ${displayName.toLowerCase()} by slug
-   */
-  async get${singularize(displayName)}(slug: string, draft = false): Promise<${displayName}> {
-    const params = new URLSearchParams();
-    if (draft) params.set('draft', 'true');
+export interface RichTextOperators {
+  like?: string;
+  contains?: string;
+  exists?: boolean;
+}
 
-    const response = await this.fetch<PayloadResponse<${displayName}>>(
-      \`/${slug}?where[slug][equals]=\${slug}&\${params.toString()}\`
-    );
+export interface JSONOperators extends EqualityOperators<unknown> {
+  like?: string;
+  contains?: unknown;
+  within?: GeoJSONGeometry;
+  intersects?: GeoJSONGeometry;
+}
 
-    if (response.docs.length === 0) {
-      throw new Error(\`${displayName} with slug "\${slug}" not found\`);
-    }
+// A where clause over a collection's field operators, nestable with and/or
+export type Where<Fields> = Fields & {
+  and?: Where<Fields>[];
+  or?: Where<Fields>[];
+};
 
-    return response.docs[0];
-  }`);
-  }
+// A field path, ascending or descending (\`-field\`)
+export type Sort<Field extends string> = Field | \`-\${Field}\`;
 
-  // Get published items
-  if (hasStatus) {
-    methods.push(`  /**
-   * Get only published ${pluralName.toLowerCase()}
-   */
-  async getPublished${pluralName}(
-    options?: Omit<QueryOptions, 'where'>
-  ): Promise<${displayName}[]> {
-    const response = await this.get${pluralName}List({
-      ...options,
-      where: {
-        status: { equals: 'published' },
-      },
-    });
-    return response.docs;
-  }`);
-  }
+// Fields to return: \`true\` includes only those fields, \`false\` excludes them
+export type SelectFields<T> = { [K in keyof T]?: boolean };
 
-  // Get navigation items
-  if (hasNavigation) {
-    methods.push(`  /**
-   * Get ${pluralName.toLowerCase()} for navigation menu
-   */
-  async get${pluralName}ForNavigation(): Promise<${displayName}[]> {
-    const response = await this.get${pluralName}List({
-      where: {
-        showInNavigation: { equals: true },
-        status: { equals: 'published' },
-      },
-      sort: 'navigationOrder',
-    });
-    return response.docs;
-  }`);
-  }
+type SelectedKeys<S, V extends boolean> = {
+  [K in keyof S]-?: S[K] extends V ? K : never;
+}[keyof S];
 
-  return methods.join('\n\n');
+// A document narrowed to the fields picked by a select (\`id\` is always returned)
+export type Selected<T, S> = SelectFields<T> extends S
+  ? T
+  : true extends S[keyof S]
+    ? Pick<T, Extract<SelectedKeys<S, true> | 'id', keyof T>>
+    : Omit<T, SelectedKeys<S, false>>;
+
+export interface QueryOptions<
+  W = Where<Record<string, unknown>>,
+  S extends string = string,
+  F extends Record<string, boolean | undefined> = Record<string, boolean | undefined>,
+> {
+  limit?: number;
+  page?: number;
+  where?: W;
+  sort?: S | S[];
+  draft?: boolean;
+  // Levels of relationships to populate (Payload default: 2)
+  depth?: number;
+  select?: F;
+  // Fields to return for populated documents, per collection slug
+  populate?: Record<string, Record<string, boolean>>;
+  // Locale to return, or 'all' for every locale
+  locale?: Locale | 'all';
+  // Locale used for missing translations, or false for none
+  fallbackLocale?: Locale | false;
+  // false returns every document in one page
+  pagination?: boolean;
+}
+
+// Query options of global reads
+export type GlobalQueryOptions = Pick<QueryOptions, 'draft' | 'depth' | 'populate' | 'locale' | 'fallbackLocale'>;`;
 }
 
 /**
- * Generate React Router route template
+ * Generate base client template
+ *
+ * Clients take their base URL, \`fetch\`, headers and default query options
+ * from a config object instead of importing environment variables, so one
+ * app can talk to several Payload instances.
+ */
+export function generateBaseClientTemplate(): string {
+  return `/**
+ * Base Payload client class
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run collection-registry to regenerate
  */
-export function generateRouteTemplate(
-  collection: CollectionMetadata,
-  type: 'index' | 'detail'
-): string {
-  const { slug, displayName, pluralName } = collection;
 
-  if (type === 'index') {
-    return `import type { MetaFunction } from 'react-router';
-import { payloadClient } from '~/lib/payloadClient';
-import type { ${displayName} } from '~/lib/types';
+import type { Locale, PayloadResponse, QueryOptions } from '../types';
+import { getCachePolicy, getCacheTags, MemoryCache } from './cache';
+import type { CacheAdapter, CacheOptions, CachePolicy } from './cache';
+import { createPayloadError } from './errors';
 
-export const meta: MetaFunction = () => {
-  return [
-    { title: \`${pluralName} - My App\` },
-    { name: 'description', content: \`Browse all ${pluralName.toLowerCase()}\` },
-  ];
-};
+// How requests authenticate: a bearer token stored on login, or the
+// Payload session cookie sent by the browser
+export type AuthStrategy = 'bearer' | 'cookies';
 
-export async function loader() {
-  try {
-    const ${slug} = await payloadClient.getPublished${pluralName}();
-    return { ${slug} };
-  } catch (error) {
-    console.error(\`Error loading ${pluralName.toLowerCase()}:\`, error);
-    return { ${slug}: [] };
-  }
+export interface PayloadClientConfig {
+  // URL of the Payload REST API, e.g. https://cms.example.com/api
+  baseUrl: string;
+  // fetch implementation, e.g. for tests or server runtimes (default: global fetch)
+  fetch?: typeof fetch;
+  // Headers sent with every request
+  headers?: Record<string, string>;
+  // Query options applied to list requests (not by-ID, global or bulk requests);
+  // \`where\` is combined with \`and\`
+  defaultQuery?: QueryOptions;
+  // How requests authenticate (default: 'cookies')
+  auth?: AuthStrategy;
+  // Default request timeout in milliseconds (default: none)
+  timeout?: number;
+  // Retries of GET requests, or false to disable (default: DEFAULT_RETRY)
+  retry?: RetryOptions | false;
+  // Caching of collection reads (default: none)
+  cache?: CacheOptions;
+  // Locale of every request unless a method sets one (default: Payload's defaultLocale)
+  locale?: Locale | 'all';
+  // Locale used for missing translations, or false for none
+  fallbackLocale?: Locale | false;
 }
 
-export default function ${pluralName}Index({ loaderData }: { loaderData: { ${slug}: ${displayName}[] } }) {
-  const { ${slug} } = loaderData;
+export interface RetryOptions {
+  // Retries after the first attempt
+  retries?: number;
+  // Backoff before the first retry in milliseconds, doubled on each retry
+  baseDelay?: number;
+  // Longest wait between attempts; longer \`Retry-After\` values aren't retried
+  maxDelay?: number;
+}
 
-  return (
-    <div className='max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8'>
-      <h1 className='text-3xl font-bold text-gray-900 mb-8'>${pluralName}</h1>
+export const DEFAULT_RETRY: Required<RetryOptions> = {
+  retries: 2,
+  baseDelay: 300,
+  maxDelay: 5000,
+};
 
-      {${slug}.length === 0 ? (
-        <p className='text-gray-600'>No ${pluralName.toLowerCase()} found.</p>
-      ) : (
-        <div className='grid gap-6 md:grid-cols-2 lg:grid-cols-3'>
-          {${slug}.map((${slug.slice(0, -1)}) => (
-            <div key={${slug.slice(0, -1)}.id} className='bg-white rounded-lg shadow-md overflow-hidden'>
-              {${slug.slice(0, -1)}.featuredImage && (
+// Per-request options accepted by every generated method
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeout?: number;
+  retry?: RetryOptions | false;
+  // Cache policy for this request, or false to bypass the cache
+  cachePolicy?: CachePolicy | false;
+  // Cookies sent with this request; only \`omit\` requests are cached
+  // (default: 'include' with the cookies strategy, 'omit' with bearer auth)
+  credentials?: RequestCredentials;
+  // Locale of this request, unless its query options set one
+  locale?: Locale | 'all';
+  fallbackLocale?: Locale | false;
+  // Next.js data cache settings, passed through to \`fetch\`
+  next?: { revalidate?: number | false; tags?: string[] };
+}
+
+// Paging of \`getAll*\` helpers
+export interface PaginationOptions {
+  // Documents per request (default: 100)
+  pageSize?: number;
+  // Pages requested at once after the first (default: 1)
+  concurrency?: number;
+}
+
+// What a generated method reads or changes, for caching and invalidation
+export interface CacheTarget {
+  collection: string;
+  name: string;
+}
+
+// Session state, shared by the clients created from one config
+export interface PayloadSession {
+  strategy: AuthStrategy;
+  token: string | null;
+  cache: CacheAdapter | null;
+  // Keys of stale cache entries being refreshed in the background
+  revalidating: Set<string>;
+}
+
+export function createSession(config: PayloadClientConfig): PayloadSession {
+  const cache = config.cache ? (config.cache.adapter ?? new MemoryCache(config.cache.maxEntries)) : null;
+  return { strategy: config.auth ?? 'cookies', token: null, cache, revalidating: new Set() };
+}
+
+export abstract class BasePayloadClient {
+  protected readonly config: PayloadClientConfig;
+  protected readonly session: PayloadSession;
+
+  constructor(config: PayloadClientConfig, session: PayloadSession = createSession(config)) {
+    this.config = config;
+    this.session = session;
+  }
+
+  setAuthStrategy(strategy: AuthStrategy): void {
+    if (strategy === this.session.strategy) return;
+    this.session.strategy = strategy;
+    this.clearCache();
+  }
+
+  setToken(token: string | null): void {
+    if (token === this.session.token) return;
+    this.session.token = token;
+    this.clearCache();
+  }
+
+  getToken(): string | null {
+    return this.session.token;
+  }
+
+  /**
+   * Send a request, serving reads of \`target\` from the cache when one is
+   * configured and invalidating its collection after writes
+   *
+   * Only anonymous reads are cached: requests with a session token, an
+   * \`Authorization\` or \`Cookie\` header, or sent with the browser's cookies
+   * (credentials other than \`omit\`) may see drafts and restricted fields.
+   */
+  protected async fetch<T>(
+    path: string,
+    options: RequestInit & RequestOptions = {},
+    target?: CacheTarget
+  ): Promise<T> {
+    const { cachePolicy, locale, fallbackLocale, ...request } = options;
+    const endpoint = this.withLocale(path, locale ?? this.config.locale, fallbackLocale ?? this.config.fallbackLocale);
+    const { cache } = this.session;
+    if (!cache || !target) return this.request<T>(endpoint, request);
+
+    if ((request.method ?? 'GET').toUpperCase() !== 'GET') {
+      const result = await this.request<T>(endpoint, request);
+      await cache.invalidate([target.collection]);
+      return result;
+    }
+
+    const policy = this.config.cache && getCachePolicy(this.config.cache, target.name, cachePolicy);
+    if (!policy || this.isAuthenticated(request)) return this.request<T>(endpoint, request);
+
+    const key = \`\${this.config.baseUrl}\${endpoint}\`;
+    const entry = await cache.get(key);
+    if (entry && entry.freshUntil > Date.now()) return entry.value as T;
+
+    if (entry && entry.staleUntil > Date.now()) {
+      // Serve the stale response and refresh it without the caller's signal
+      const { revalidating } = this.session;
+      if (!revalidating.has(key)) {
+        const background = { ...request };
+        delete background.signal;
+        revalidating.add(key);
+        void this.revalidate(cache, key, endpoint, background, target, policy)
+          .catch(() => undefined)
+          .finally(() => revalidating.delete(key));
+      }
+      return entry.value as T;
+    }
+
+    return this.revalidate<T>(cache, key, endpoint, request, target, policy);
+  }
+
+  // Add the locale parameters to an endpoint unless its query already has them
+  private withLocale(endpoint: string, locale?: Locale | 'all', fallbackLocale?: Locale | false): string {
+    const query = new URLSearchParams(endpoint.split('?')[1]);
+    const params = new URLSearchParams();
+
+    if (locale && !query.has('locale')) params.set('locale', locale);
+    if (fallbackLocale !== undefined && !query.has('fallback-locale')) {
+      params.set('fallback-locale', fallbackLocale === false ? 'none' : fallbackLocale);
+    }
+
+    const extra = params.toString();
+    if (!extra) return endpoint;
+    return \`\${endpoint}\${endpoint.includes('?') ? '&' : '?'}\${extra}\`;
+  }
+
+  private async revalidate<T>(
+    cache: CacheAdapter,
+    key: string,
+    endpoint: string,
+    options: RequestInit & RequestOptions,
+    target: CacheTarget,
+    policy: Required<CachePolicy>
+  ): Promise<T> {
+    const { token } = this.session;
+    const value = await this.request<T>(endpoint, options);
+    const now = Date.now();
+
+    // A login during the request may have sent it with the new token
+    if (this.session.token !== token) return value;
+
+    await cache.set(key, {
+      value,
+      tags: getCacheTags(target.collection, value),
+      freshUntil: now + policy.ttl,
+      staleUntil: now + policy.ttl + policy.staleWhileRevalidate,
+    });
+    return value;
+  }
+
+  // Whether a request may carry credentials: the session token, an Authorization
+  // or Cookie header, or cookies the browser adds
+  private isAuthenticated(request: RequestInit): boolean {
+    if (this.session.token) return true;
+    if ((request.credentials ?? this.getCredentials()) !== 'omit') return true;
+
+    const sources = [new Headers(this.config.headers), new Headers(request.headers)];
+    return sources.some((source) => source.has('Authorization') || source.has('Cookie'));
+  }
+
+  // Drop every cached response after an auth change
+  private clearCache(): void {
+    const { cache } = this.session;
+    if (cache?.clear) void Promise.resolve(cache.clear()).catch(() => undefined);
+  }
+
+  /**
+   * Send a request, with a timeout and retries for GET requests that fail
+   * with a network error, 429 or 5xx
+   */
+  private async request<T>(endpoint: string, options: RequestInit & RequestOptions): Promise<T> {
+    const { timeout = this.config.timeout, retry = this.config.retry, signal, ...request } = options;
+    const url = \`\${this.config.baseUrl}\${endpoint}\`;
+    const method = (request.method ?? 'GET').toUpperCase();
+    const retries = method === 'GET' && retry !== false ? { ...DEFAULT_RETRY, ...retry } : undefined;
+
+    for (let attempt = 0; ; attempt++) {
+      const canRetry = retries !== undefined && attempt < retries.retries;
+      const delay = retries ? getBackoff(retries, attempt) : 0;
+      const deadline = withTimeout(signal, timeout);
+
+      try {
+        const response = await this.send(url, { ...request, signal: deadline.signal });
+
+        if (canRetry && isRetryableStatus(response.status)) {
+          const retryAfter = getRetryAfter(response);
+          if (retryAfter === undefined || retryAfter <= retries.maxDelay) {
+            // Release the connection of the failed response before waiting
+            await response.body?.cancel().catch(() => undefined);
+            await sleep(retryAfter ?? delay, signal);
+            continue;
+          }
+        }
+
+        if (!response.ok) {
+          throw await createPayloadError(response, url);
+        }
+
+        return (await response.json()) as T;
+      } catch (error) {
+        // Network errors and timeouts are retried; caller aborts are not
+        if (!canRetry || signal?.aborted || !isNetworkError(error)) throw error;
+        await sleep(delay, signal);
+      } finally {
+        deadline.clear();
+      }
+    }
+  }
+
+  // Default credentials: the cookies strategy sends the browser's cookies,
+  // bearer auth only its token
+  private getCredentials(): RequestCredentials {
+    return this.session.strategy === 'cookies' ? 'include' : 'omit';
+  }
+
+  private send(url: string, options: RequestInit): Promise<Response> {
+    const { strategy, token } = this.session;
+    const init: RequestInit = {
+      credentials: this.getCredentials(),
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...this.config.headers,
+        ...(strategy === 'bearer' && token ? { Authorization: \`Bearer \${token}\` } : {}),
+        ...options.headers,
+      },
+    };
+    return this.config.fetch ? this.config.fetch(url, init) : fetch(url, init);
+  }
+
+  /**
+   * Fetch every page of a list, \`concurrency\` pages at a time once the first
+   * page has reported \`totalPages\`
+   */
+  protected async fetchAll<T>(
+    getPage: (page: number, limit: number) => Promise<PayloadResponse<T>>,
+    options: PaginationOptions = {}
+  ): Promise<T[]> {
+    const { pageSize = 100, concurrency = 1 } = options;
+    const step = Math.max(1, Math.floor(concurrency));
+    const first = await getPage(1, pageSize);
+    const docs = [...first.docs];
+
+    for (let page = 2; page <= first.totalPages; page += step) {
+      const count = Math.min(step, first.totalPages - page + 1);
+      const batch = await Promise.all(
+        Array.from({ length: count }, (_, index) => getPage(page + index, pageSize))
+      );
+      batch.forEach((response) => docs.push(...response.docs));
+    }
+
+    return docs;
+  }
+
+  /**
+   * Build the query string of a request; list reads pass \`withDefaults\` to
+   * apply the config's \`defaultQuery\`
+   */
+  protected buildQueryParams<
+    W,
+    S extends string,
+    F extends Record<string, boolean | undefined> = Record<string, boolean | undefined>,
+  >(
+    query?: QueryOptions<W, S, F>,
+    withDefaults = false
+  ): URLSearchParams {
+    const params = new URLSearchParams();
+    const defaults = withDefaults ? this.config.defaultQuery : undefined;
+    const options = { ...defaults, ...query };
+    const where =
+      defaults?.where && query?.where
+        ? { and: [defaults.where, query.where] }
+        : (query?.where ?? defaults?.where);
+
+    if (options.limit) params.set("limit", options.limit.toString());
+    if (options.page) params.set("page", options.page.toString());
+    if (options.sort) {
+      params.set("sort", Array.isArray(options.sort) ? options.sort.join(",") : options.sort);
+    }
+    if (options.draft) params.set("draft", "true");
+    if (where) params.set("where", JSON.stringify(where));
+    if (options.depth !== undefined) params.set("depth", options.depth.toString());
+    if (options.select) setFlags(params, "select", options.select);
+    for (const [slug, fields] of Object.entries(options.populate ?? {})) {
+      setFlags(params, \`populate[\${slug}]\`, fields);
+    }
+    if (options.locale) params.set("locale", options.locale);
+    if (options.fallbackLocale !== undefined) {
+      params.set("fallback-locale", options.fallbackLocale === false ? "none" : options.fallbackLocale);
+    }
+    if (options.pagination === false) params.set("pagination", "false");
+
+    return params;
+  }
+}
+
+// Field flags in bracket notation, e.g. select[title]=true
+function setFlags(params: URLSearchParams, name: string, flags: Record<string, boolean | undefined>): void {
+  for (const [field, value] of Object.entries(flags)) {
+    if (value !== undefined) params.set(\`\${name}[\${field}]\`, String(value));
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function isNetworkError(error: unknown): boolean {
+  return error instanceof TypeError || (error instanceof DOMException && error.name === 'TimeoutError');
+}
+
+// Exponential backoff with full jitter
+function getBackoff(retry: Required<RetryOptions>, attempt: number): number {
+  return Math.random() * Math.min(retry.maxDelay, retry.baseDelay * 2 ** attempt);
+}
+
+// \`Retry-After\` in milliseconds, from seconds or an HTTP date
+function getRetryAfter(response: Response): number | undefined {
+  const header = response.headers.get('Retry-After');
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// A signal that aborts with the caller's signal or after \`timeout\` ms
+function withTimeout(
+  signal: AbortSignal | undefined,
+  timeout: number | undefined
+): { signal: AbortSignal | null; clear: () => void } {
+  if (!timeout) return { signal: signal ?? null, clear: () => {} };
+
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort, { once: true });
+  const timer = setTimeout(
+    () => controller.abort(new DOMException(\`Request timed out after \${timeout}ms\`, 'TimeoutError')),
+    timeout
+  );
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abort);
+    },
+  };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}`;
+}
+
+/**
+ * Generate the response cache used by generated clients
+ *
+ * Entries are tagged with their collection slug and the IDs of the documents
+ * they contain, so mutations and \`invalidate(collection, id?)\` can drop them
+ * without knowing which queries were cached. Stores other than the default
+ * in-memory LRU plug in through \`CacheAdapter\`.
+ */
+export function generateCacheTemplate(): string {
+  return `/**
+ * Payload response cache
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run collection-registry to regenerate
+ */
+
+// A cached response with the tags that invalidate it
+export interface CacheEntry<T = unknown> {
+  value: T;
+  // The collection slug and \`slug:id\` for each document in the response
+  tags: string[];
+  // Time in ms until which the entry is served as is
+  freshUntil: number;
+  // Time in ms until which the entry is served while it is refreshed
+  staleUntil: number;
+}
+
+/**
+ * Storage for cached responses, e.g. Redis or a KV namespace instead of the
+ * default MemoryCache. Methods may be synchronous or return promises.
+ */
+export interface CacheAdapter {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  // Drop every entry carrying one of the tags
+  invalidate(tags: string[]): void | Promise<void>;
+  // Drop every entry, called when the session logs in or out
+  clear?(): void | Promise<void>;
+}
+
+export interface CachePolicy {
+  // How long responses are fresh, in milliseconds
+  ttl?: number;
+  // How long stale responses are served while refreshed in the background
+  staleWhileRevalidate?: number;
+}
+
+export interface CacheOptions extends CachePolicy {
+  // Where responses are stored (default: a MemoryCache)
+  adapter?: CacheAdapter;
+  // Capacity of the default MemoryCache
+  maxEntries?: number;
+  // Policies per client method, e.g. { getSiteSettings: { ttl: 300_000 } },
+  // or false to never cache a method
+  methods?: Record<string, CachePolicy | false>;
+}
+
+export const DEFAULT_CACHE_POLICY: Required<CachePolicy> = {
+  ttl: 60_000,
+  staleWhileRevalidate: 0,
+};
+
+/**
+ * In-memory cache that evicts the least recently used entry when full
+ */
+export class MemoryCache implements CacheAdapter {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly maxEntries: number;
+
+  constructor(maxEntries = 500) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    if (entry.staleUntil <= Date.now()) return undefined;
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  invalidate(tags: string[]): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.some((tag) => tags.includes(tag))) this.entries.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// Tag of a collection, or of one of its documents
+export function getCacheTag(collection: string, id?: string | number): string {
+  return id === undefined ? collection : \`\${collection}:\${id}\`;
+}
+
+// Tags of a response: its collection and each document it contains
+export function getCacheTags(collection: string, value: unknown): string[] {
+  const response = value as { id?: string | number; docs?: { id?: string | number }[] } | null;
+  const docs = Array.isArray(response?.docs) ? response.docs : [response];
+  const ids = docs.flatMap((doc) => (doc?.id === undefined ? [] : [doc.id]));
+
+  return [collection, ...ids.map((id) => getCacheTag(collection, id))];
+}
+
+// The policy for a method: request override, then method, then cache defaults
+export function getCachePolicy(
+  options: CacheOptions,
+  name: string,
+  override?: CachePolicy | false
+): Required<CachePolicy> | undefined {
+  const method = options.methods?.[name];
+  if (override === false || method === false) return undefined;
+
+  return {
+    ttl: override?.ttl ?? method?.ttl ?? options.ttl ?? DEFAULT_CACHE_POLICY.ttl,
+    staleWhileRevalidate:
+      override?.staleWhileRevalidate ??
+      method?.staleWhileRevalidate ??
+      options.staleWhileRevalidate ??
+      DEFAULT_CACHE_POLICY.staleWhileRevalidate,
+  };
+}`;
+}
+
+/**
+ * Generate the error classes thrown by generated clients
+ *
+ * Failed responses become a `PayloadAPIError` subclass chosen by status, so
+ * callers can branch with `instanceof` or the `is*Error` guards instead of
+ * parsing messages.
+ */
+export function generateErrorClassesTemplate(): string {
+  return `/**
+ * Payload API errors
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run collection-registry to regenerate
+ */
+
+// An entry of the \`errors\` array in Payload error responses
+export interface PayloadErrorDetail {
+  message: string;
+  name?: string;
+  data?: unknown;
+}
+
+export interface PayloadErrorOptions {
+  status: number;
+  url: string;
+  errors?: PayloadErrorDetail[];
+}
+
+export class PayloadAPIError extends Error {
+  readonly status: number;
+  readonly url: string;
+  readonly errors: PayloadErrorDetail[];
+
+  constructor(message: string, options: PayloadErrorOptions) {
+    super(message);
+    this.name = 'PayloadAPIError';
+    this.status = options.status;
+    this.url = options.url;
+    this.errors = options.errors ?? [];
+  }
+}
+
+export class NotFoundError extends PayloadAPIError {
+  constructor(message: string, options: PayloadErrorOptions) {
+    super(message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class UnauthorizedError extends PayloadAPIError {
+  constructor(message: string, options: PayloadErrorOptions) {
+    super(message, options);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends PayloadAPIError {
+  constructor(message: string, options: PayloadErrorOptions) {
+    super(message, options);
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class ValidationError extends PayloadAPIError {
+  // Messages per field path, e.g. { title: ['This field is required.'] }
+  readonly fieldErrors: Record<string, string[]>;
+
+  constructor(message: string, options: PayloadErrorOptions) {
+    super(message, options);
+    this.name = 'ValidationError';
+    this.fieldErrors = getFieldErrors(this.errors);
+  }
+}
+
+export function isPayloadError(error: unknown): error is PayloadAPIError {
+  return error instanceof PayloadAPIError;
+}
+
+export function isNotFoundError(error: unknown): error is NotFoundError {
+  return error instanceof NotFoundError;
+}
+
+export function isUnauthorizedError(error: unknown): error is UnauthorizedError {
+  return error instanceof UnauthorizedError;
+}
+
+export function isForbiddenError(error: unknown): error is ForbiddenError {
+  return error instanceof ForbiddenError;
+}
+
+export function isValidationError(error: unknown): error is ValidationError {
+  return error instanceof ValidationError;
+}
+
+/**
+ * Build the error for a failed response from its status and \`errors\` body
+ */
+export async function createPayloadError(response: Response, url: string): Promise<PayloadAPIError> {
+  const body: { errors?: PayloadErrorDetail[] } | null = await response.json().catch(() => null);
+  const errors = Array.isArray(body?.errors) ? body.errors : [];
+  const message = errors[0]?.message ?? \`HTTP error! status: \${response.status}\`;
+  const options = { status: response.status, url, errors };
+
+  if (errors.some((error) => error.name === 'ValidationError')) {
+    return new ValidationError(message, options);
+  }
+
+  switch (response.status) {
+    case 401:
+      return new UnauthorizedError(message, options);
+    case 403:
+      return new ForbiddenError(message, options);
+    case 404:
+      return new NotFoundError(message, options);
+    default:
+      return new PayloadAPIError(message, options);
+  }
+}
+
+// Payload 3 nests field errors in data.errors, Payload 2 in data
+function getFieldErrors(errors: PayloadErrorDetail[]): Record<string, string[]> {
+  const fieldErrors: Record<string, string[]> = {};
+
+  for (const error of errors) {
+    const data = error.data as { errors?: unknown } | unknown[] | undefined;
+    const details = Array.isArray(data) ? data : Array.isArray(data?.errors) ? data.errors : [];
+
+    for (const detail of details as Array<{ path?: string; field?: string; message?: string }>) {
+      const path = detail.path ?? detail.field;
+      if (!path || !detail.message) continue;
+      (fieldErrors[path] ??= []).push(detail.message);
+    }
+  }
+
+  return fieldErrors;
+}`;
+}
+
+/**
+ * Generate the versions client shared by collections with `versions` enabled
+ *
+ * Version queries don't use the client's `defaultQuery`, since version
+ * documents nest the collection's fields under `version`.
+ */
+export function generateVersionsClientTemplate(): string {
+  return `/**
+ * Payload versions client
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run collection-registry to regenerate
+ */
+
+import type { PayloadDocResponse, PayloadResponse, PayloadVersion } from '../types';
+import { BasePayloadClient } from './base';
+import type { PayloadClientConfig, PayloadSession, RequestOptions } from './base';
+
+export interface VersionQueryOptions {
+  limit?: number;
+  page?: number;
+  // Sort of the version documents (default: '-updatedAt')
+  sort?: string;
+  depth?: number;
+}
+
+export class VersionsClient<T> extends BasePayloadClient {
+  private readonly slug: string;
+
+  constructor(slug: string, config: PayloadClientConfig, session?: PayloadSession) {
+    super(config, session);
+    this.slug = slug;
+  }
+
+  /**
+   * List versions, newest first, of one document or of the whole collection
+   */
+  async listVersions(
+    parent?: string,
+    options: VersionQueryOptions = {},
+    request?: RequestOptions
+  ): Promise<PayloadResponse<PayloadVersion<T>>> {
+    const params = new URLSearchParams({ sort: options.sort ?? '-updatedAt' });
+    if (options.limit) params.set('limit', options.limit.toString());
+    if (options.page) params.set('page', options.page.toString());
+    if (options.depth !== undefined) params.set('depth', options.depth.toString());
+    if (parent !== undefined) params.set('where', JSON.stringify({ parent: { equals: parent } }));
+
+    return this.fetch<PayloadResponse<PayloadVersion<T>>>(\`/\${this.slug}/versions?\${params.toString()}\`, request, {
+      collection: this.slug,
+      name: 'listVersions',
+    });
+  }
+
+  /**
+   * Get a single version by ID
+   */
+  async getVersion(id: string, request?: RequestOptions): Promise<PayloadVersion<T>> {
+    return this.fetch<PayloadVersion<T>>(\`/\${this.slug}/versions/\${id}\`, request, {
+      collection: this.slug,
+      name: 'getVersion',
+    });
+  }
+
+  /**
+   * Restore a version, making it the document's current state
+   */
+  async restoreVersion(id: string, request?: RequestOptions): Promise<T> {
+    const response = await this.fetch<PayloadDocResponse<T>>(\`/\${this.slug}/versions/\${id}\`, {
+      ...request,
+      method: 'POST',
+    }, { collection: this.slug, name: 'restoreVersion' });
+    return response.doc;
+  }
+}
+`;
+}
+
+export interface TemplateOptions {
+  // Status values used by generated queries (defaults: DEFAULT_STATUS_VALUES)
+  statusValues?: StatusValues;
+}
+
+/**
+ * Generate collection client methods
+ *
+ * Queries use the collection's `fieldMappings`, so a collection with a
+ * `urlSlug` field looks documents up by `urlSlug`, and published filters use
+ * `statusField` and `statusValues.published`.
+ */
+export function generateCollectionClientMethods(
+  collection: CollectionMetadata,
+  options: TemplateOptions = {}
+): string {
+  const {
+    slug,
+    displayName,
+    pluralName,
+    hasSlug,
+    hasStatus,
+    hasNavigation,
+    fieldMappings,
+  } = collection;
+  const { slugField, navigationField } = fieldMappings;
+  const published = getPublishedFilter(collection, options.statusValues);
+  const hasNavigationOrder = collection.fields.some(
+    (field) => field.name === 'navigationOrder'
+  );
+
+  // Reads are generic over `select`, narrowing documents to the picked fields
+  const typeParams = `<S extends ${displayName}Select = ${displayName}Select>`;
+  const doc = `Selected<${displayName}, S>`;
+  const methods = [];
+
+  if (collection.versions) {
+    methods.push(`  /**
+   * Versions of ${pluralName.toLowerCase()}
+   */
+  readonly versions = new VersionsClient<${displayName}>('${slug}', this.config, this.session);`);
+  }
+
+  // Get all items
+  methods.push(`  /**
+   * Get all ${pluralName.toLowerCase()} with optional filtering
+   */
+  async get${pluralName}List${typeParams}(
+    options?: ${displayName}QueryOptions<S>,
+    request?: RequestOptions
+  ): Promise<PayloadResponse<${doc}>> {
+    const params = this.buildQueryParams(options, true);
+    return this.fetch<PayloadResponse<${doc}>>(\`/${slug}?\${params.toString()}\`, request, {
+      collection: '${slug}',
+      name: 'get${pluralName}List',
+    });
+  }`);
+
+  // Walk every page
+  methods.push(`  /**
+   * Iterate over every ${pluralName.toLowerCase()}, following \`nextPage\` until the last page
+   */
+  async *iterate${pluralName}${typeParams}(
+    options?: ${displayName}QueryOptions<S>,
+    request?: RequestOptions
+  ): AsyncGenerator<${doc}, void, undefined> {
+    let page: number | null = options?.page ?? 1;
+
+    while (page !== null) {
+      const response: PayloadResponse<${doc}> = await this.get${pluralName}List({ ...options, page }, request);
+      yield* response.docs;
+      page = response.hasNextPage ? response.nextPage : null;
+    }
+  }
+
+  /**
+   * Get every ${pluralName.toLowerCase()}, \`pageSize\` per request and up to \`concurrency\` requests at once
+   */
+  async getAll${pluralName}${typeParams}(
+    options?: Omit<${displayName}QueryOptions<S>, 'page' | 'limit' | 'pagination'> & PaginationOptions,
+    request?: RequestOptions
+  ): Promise<${doc}[]> {
+    return this.fetchAll(
+      (page, limit) => this.get${pluralName}List({ ...options, page, limit }, request),
+      options
+    );
+  }`);
+
+  // Get single item by slug
+  if (hasSlug) {
+    methods.push(`  /**
+   * Get a single ${displayName.toLowerCase()} by slug
+   */
+  async get${singularize(displayName)}(slug: string, draft = false, request?: RequestOptions): Promise<${displayName}> {
+    const params = this.buildQueryParams<${displayName}Where, ${displayName}Sort>(
+      { where: { ${slugField}: { equals: slug } }, draft },
+      true
+    );
+    const endpoint = \`/${slug}?\${params.toString()}\`;
+    const response = await this.fetch<PayloadResponse<${displayName}>>(endpoint, request, {
+      collection: '${slug}',
+      name: 'get${singularize(displayName)}',
+    });
+
+    if (response.docs.length === 0) {
+      throw new NotFoundError(\`${displayName} with slug "\${slug}" not found\`, {
+        status: 404,
+        url: \`\${this.config.baseUrl}\${endpoint}\`,
+      });
+    }
+
+    return response.docs[0];
+  }`);
+  }
+
+  // Get published items
+  if (hasStatus) {
+    methods.push(`  /**
+   * Get only published ${pluralName.toLowerCase()}
+   */
+  async getPublished${pluralName}${typeParams}(
+    options?: Omit<${displayName}QueryOptions<S>, 'where'>,
+    request?: RequestOptions
+  ): Promise<${doc}[]> {
+    const params = this.buildQueryParams<${displayName}Where, ${displayName}Sort, S>({
+      ...options,
+      where: {
+        ${published.field}: { equals: '${published.value}' },
+      },
+    }, true);
+    const response = await this.fetch<PayloadResponse<${doc}>>(\`/${slug}?\${params.toString()}\`, request, {
+      collection: '${slug}',
+      name: 'getPublished${pluralName}',
+    });
+    return response.docs;
+  }`);
+  }
+
+  // Get navigation items
+  if (hasNavigation) {
+    methods.push(`  /**
+   * Get ${pluralName.toLowerCase()} for navigation menu
+   */
+  async get${pluralName}ForNavigation(request?: RequestOptions): Promise<${displayName}[]> {
+    const params = this.buildQueryParams<${displayName}Where, ${displayName}Sort>({
+      where: {
+        ${navigationField}: { equals: true },${hasStatus ? `\n        ${published.field}: { equals: '${published.value}' },` : ''}
+      },${hasNavigationOrder ? "\n      sort: 'navigationOrder'," : ''}
+    }, true);
+    const response = await this.fetch<PayloadResponse<${displayName}>>(\`/${slug}?\${params.toString()}\`, request, {
+      collection: '${slug}',
+      name: 'get${pluralName}ForNavigation',
+    });
+    return response.docs;
+  }`);
+  }
+
+  methods.push(...generateCollectionMutationMethods(collection));
+
+  if (collection.isAuth) {
+    methods.push(generateAuthMethods(collection));
+  }
+
+  return methods.join('\n\n');
+}
+
+// Query options that apply to single-document reads
+const DOC_QUERY_OPTIONS = [
+  'draft',
+  'depth',
+  'select',
+  'populate',
+  'locale',
+  'fallbackLocale',
+]
+  .map((option) => `'${option}'`)
+  .join(' | ');
+
+/**
+ * Generate by-ID lookup and create/update/delete methods
+ *
+ * Methods for operations whose access function always returns `false` are
+ * left out, since Payload rejects every request to them.
+ */
+function generateCollectionMutationMethods(
+  collection: CollectionMetadata
+): string[] {
+  const { slug, displayName, access } = collection;
+  const name = displayName.toLowerCase();
+  const methods = [];
+
+  if (access.read !== 'denied') {
+    methods.push(`  /**
+   * Get a single ${name} by ID
+   */
+  async findByID<S extends ${displayName}Select = ${displayName}Select>(
+    id: string,
+    options?: Pick<${displayName}QueryOptions<S>, ${DOC_QUERY_OPTIONS}>,
+    request?: RequestOptions
+  ): Promise<Selected<${displayName}, S>> {
+    const params = this.buildQueryParams(options);
+    return this.fetch<Selected<${displayName}, S>>(\`/${slug}/\${id}?\${params.toString()}\`, request, {
+      collection: '${slug}',
+      name: 'findByID',
+    });
+  }`);
+
+    if (collection.versions?.drafts) {
+      methods.push(`  /**
+   * Get the latest draft of a ${name} by ID, for previews
+   */
+  async findDraftByID<S extends ${displayName}Select = ${displayName}Select>(
+    id: string,
+    options?: Pick<${displayName}QueryOptions<S>, ${DOC_QUERY_OPTIONS}>,
+    request?: RequestOptions
+  ): Promise<Selected<${displayName}, S>> {
+    return this.findByID(id, { ...options, draft: true }, request);
+  }`);
+    }
+  }
+
+  if (access.create !== 'denied') {
+    methods.push(`  /**
+   * Create a ${name}
+   */
+  async create(data: ${displayName}Input, request?: RequestOptions): Promise<${displayName}> {
+    const response = await this.fetch<PayloadDocResponse<${displayName}>>(\`/${slug}\`, {
+      ...request,
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, { collection: '${slug}', name: 'create' });
+    return response.doc;
+  }`);
+  }
+
+  if (access.update !== 'denied') {
+    methods.push(`  /**
+   * Update a ${name} by ID
+   */
+  async updateByID(id: string, data: ${displayName}Update, request?: RequestOptions): Promise<${displayName}> {
+    const response = await this.fetch<PayloadDocResponse<${displayName}>>(\`/${slug}/\${id}\`, {
+      ...request,
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }, { collection: '${slug}', name: 'updateByID' });
+    return response.doc;
+  }
+
+  /**
+   * Update every ${name} matching a query
+   */
+  async update(
+    where: ${displayName}Where,
+    data: ${displayName}Update,
+    request?: RequestOptions
+  ): Promise<PayloadBulkResponse<${displayName}>> {
+    const params = this.buildQueryParams({ where });
+    return this.fetch<PayloadBulkResponse<${displayName}>>(\`/${slug}?\${params.toString()}\`, {
+      ...request,
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    }, { collection: '${slug}', name: 'update' });
+  }`);
+  }
+
+  if (access.delete !== 'denied') {
+    methods.push(`  /**
+   * Delete a ${name} by ID
+   */
+  async deleteByID(id: string, request?: RequestOptions): Promise<${displayName}> {
+    const response = await this.fetch<PayloadDocResponse<${displayName}>>(\`/${slug}/\${id}\`, {
+      ...request,
+      method: 'DELETE',
+    }, { collection: '${slug}', name: 'deleteByID' });
+    return response.doc;
+  }
+
+  /**
+   * Delete every ${name} matching a query
+   */
+  async delete(where: ${displayName}Where, request?: RequestOptions): Promise<PayloadBulkResponse<${displayName}>> {
+    const params = this.buildQueryParams({ where });
+    return this.fetch<PayloadBulkResponse<${displayName}>>(\`/${slug}?\${params.toString()}\`, {
+      ...request,
+      method: 'DELETE',
+    }, { collection: '${slug}', name: 'delete' });
+  }`);
+  }
+
+  return methods;
+}
+
+/**
+ * Generate the login and session methods of an auth-enabled collection
+ *
+ * Tokens returned by login, refresh and password reset are stored in the
+ * session, so every client created from the same config sends them with the
+ * bearer strategy.
+ */
+function generateAuthMethods(collection: CollectionMetadata): string {
+  const { slug, displayName } = collection;
+
+  return `  /**
+   * Log in and store the returned token in the session
+   */
+  async login(credentials: { email: string; password: string }, request?: RequestOptions): Promise<LoginResponse<${displayName}>> {
+    const response = await this.fetch<LoginResponse<${displayName}>>(\`/${slug}/login\`, {
+      ...request,
+      method: 'POST',
+      body: JSON.stringify(credentials),
+    });
+    this.setToken(response.token ?? null);
+    return response;
+  }
+
+  /**
+   * Log out and clear the session
+   */
+  async logout(request?: RequestOptions): Promise<MessageResponse> {
+    const response = await this.fetch<MessageResponse>(\`/${slug}/logout\`, {
+      ...request,
+      method: 'POST',
+    });
+    this.setToken(null);
+    return response;
+  }
+
+  /**
+   * Get the logged-in user, or \`null\` without a session
+   */
+  async me(request?: RequestOptions): Promise<MeResponse<${displayName}>> {
+    return this.fetch<MeResponse<${displayName}>>(\`/${slug}/me\`, request);
+  }
+
+  /**
+   * Refresh the session token before it expires
+   */
+  async refreshToken(request?: RequestOptions): Promise<RefreshTokenResponse<${displayName}>> {
+    const response = await this.fetch<RefreshTokenResponse<${displayName}>>(\`/${slug}/refresh-token\`, {
+      ...request,
+      method: 'POST',
+    });
+    this.setToken(response.refreshedToken);
+    return response;
+  }
+
+  /**
+   * Send a password reset email
+   */
+  async forgotPassword(email: string, request?: RequestOptions): Promise<MessageResponse> {
+    return this.fetch<MessageResponse>(\`/${slug}/forgot-password\`, {
+      ...request,
+      method: 'POST',
+      body: JSON.stringify({ email }),
+    });
+  }
+
+  /**
+   * Reset a password with the token from the reset email
+   */
+  async resetPassword(token: string, password: string, request?: RequestOptions): Promise<ResetPasswordResponse<${displayName}>> {
+    const response = await this.fetch<ResetPasswordResponse<${displayName}>>(\`/${slug}/reset-password\`, {
+      ...request,
+      method: 'POST',
+      body: JSON.stringify({ token, password }),
+    });
+    if (response.token) this.setToken(response.token);
+    return response;
+  }
+
+  /**
+   * Verify an email address with the token from the verification email
+   */
+  async verifyEmail(token: string, request?: RequestOptions): Promise<MessageResponse> {
+    return this.fetch<MessageResponse>(\`/${slug}/verify/\${token}\`, {
+      ...request,
+      method: 'POST',
+    });
+  }`;
+}
+
+/**
+ * Generate the client of a Payload global
+ *
+ * Globals are single documents at `/globals/{slug}`, so the client only has
+ * `get` and, unless update access is hard-denied, `update`.
+ */
+export function generateGlobalClientTemplate(global: GlobalMetadata): string {
+  const { slug, displayName, access } = global;
+  const name = displayName.toLowerCase();
+  const canUpdate = access.update !== 'denied';
+  const methods = [];
+
+  if (access.read !== 'denied') {
+    methods.push(`  /**
+   * Get the ${name} global
+   */
+  async get(options?: GlobalQueryOptions, request?: RequestOptions): Promise<${displayName}> {
+    const params = this.buildQueryParams(options);
+    return this.fetch<${displayName}>(\`/globals/${slug}?\${params.toString()}\`, request, {
+      collection: '${slug}',
+      name: 'get${displayName}',
+    });
+  }`);
+  }
+
+  if (canUpdate) {
+    methods.push(`  /**
+   * Update the ${name} global
+   */
+  async update(data: ${displayName}Update, request?: RequestOptions): Promise<${displayName}> {
+    const response = await this.fetch<PayloadGlobalResponse<${displayName}>>('/globals/${slug}', {
+      ...request,
+      method: 'POST',
+      body: JSON.stringify(data),
+    }, { collection: '${slug}', name: 'update${displayName}' });
+    return response.result;
+  }`);
+  }
+
+  const types = [
+    displayName,
+    canUpdate && `${displayName}Update`,
+    access.read !== 'denied' && 'GlobalQueryOptions',
+    canUpdate && 'PayloadGlobalResponse',
+  ].filter(Boolean);
+
+  return `/**
+ * ${displayName} global client
+ * Generated from Payload CMS globals
+ *
+ * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
+ */
+
+import type { ${types.join(', ')} } from '../types';
+import { BasePayloadClient } from './base';
+import type { RequestOptions } from './base';
+
+export class ${displayName}Client extends BasePayloadClient {
+${methods.join('\n\n')}
+}
+`;
+}
+
+/**
+ * Generate the type imports a collection client needs
+ */
+export function generateCollectionClientImports(
+  collection: CollectionMetadata
+): string {
+  const { displayName, access, hasSlug, hasStatus, hasNavigation } = collection;
+  const canUpdate = access.update !== 'denied';
+  const canMutate =
+    access.create !== 'denied' || canUpdate || access.delete !== 'denied';
+  const canBulkMutate = canUpdate || access.delete !== 'denied';
+
+  const types = [
+    displayName,
+    access.create !== 'denied' && `${displayName}Input`,
+    canUpdate && `${displayName}Update`,
+    `${displayName}QueryOptions`,
+    `${displayName}Select`,
+    (canBulkMutate || hasSlug || hasStatus || hasNavigation) &&
+      `${displayName}Where`,
+    (hasSlug || hasStatus || hasNavigation) && `${displayName}Sort`,
+    canBulkMutate && 'PayloadBulkResponse',
+    canMutate && 'PayloadDocResponse',
+    'PayloadResponse',
+    'Selected',
+    ...(collection.isAuth
+      ? [
+          'LoginResponse',
+          'MeResponse',
+          'MessageResponse',
+          'RefreshTokenResponse',
+          'ResetPasswordResponse',
+        ]
+      : []),
+  ].filter(Boolean);
+
+  return `import type { ${types.join(', ')} } from '../types';
+import { BasePayloadClient } from './base';
+import type { PaginationOptions, RequestOptions } from './base';${hasSlug ? "\nimport { NotFoundError } from './errors';" : ''}${collection.versions ? "\nimport { VersionsClient } from './versions';" : ''}`;
+}
+
+/**
+ * Generate exhaustive block renderers for a collection's `blocks` fields
+ *
+ * Each field gets a renderer map type keyed by block slug and a
+ * `render...Blocks` function that switches on `blockType`. Adding a block
+ * to the collection makes both fail to compile until it is handled.
+ */
+export function generateBlockRenderers(collection: CollectionMetadata): string {
+  const { displayName, fields } = collection;
+  const blockFields = collectBlockFields(fields, displayName);
+
+  const renderers = blockFields.map(({ field, typeName }) => {
+    const blocks = field.blocks ?? [];
+    const rendererKeys = blocks
+      .map((block) => {
+        const blockType = JSON.stringify(block.slug);
+        return `  ${blockType}: (block: Extract<${typeName}, { blockType: ${blockType} }>) => R;`;
+      })
+      .join('\n');
+    const cases = blocks
+      .map((block) => {
+        const blockType = JSON.stringify(block.slug);
+        return `      case ${blockType}:
+        return renderers[${blockType}](block);`;
+      })
+      .join('\n');
+
+    return `export type ${typeName}Renderers<R> = {
+${rendererKeys}
+};
+
+/**
+ * Render ${field.name} blocks with one renderer per block type
+ */
+export function render${typeName}s<R>(
+  blocks: ${typeName}[] | null | undefined,
+  renderers: ${typeName}Renderers<R>
+): R[] {
+  return (blocks ?? []).map((block) => {
+    switch (block.blockType) {
+${cases}
+      default:
+        return assertNever(block);
+    }
+  });
+}`;
+  });
+
+  return `/**
+ * ${displayName} block renderers
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run collection-registry to regenerate
+ */
+
+import type { ${blockFields.map(({ typeName }) => typeName).join(', ')} } from '../types';
+
+${renderers.join('\n\n')}
+
+function assertNever(block: never): never {
+  throw new Error(
+    \`Unhandled block type: \${(block as { blockType: string }).blockType}\`
+  );
+}
+`;
+}
+
+/**
+ * Generate TanStack Query keys, query options and hooks for a collection
+ *
+ * Keys start with the collection slug, like the client cache tags, so
+ * invalidating `keys.all` refetches every query of the collection.
+ * Mutation hooks are generated for the mutations the client has. Query
+ * options are built from the client passed to `create{Plural}Queries`, and
+ * hooks use the client from `PayloadClientProvider`.
+ */
+export function generateQueryHooksTemplate(
+  collection: CollectionMetadata
+): string {
+  const {
+    slug,
+    displayName,
+    pluralName,
+    hasSlug,
+    hasStatus,
+    hasNavigation,
+    access,
+  } = collection;
+  const camel = toCamelCase(slug);
+  const client = 'client';
+  const keys = `${camel}Keys`;
+  const queries = `use${pluralName}Queries()`;
+  const singular = singularize(displayName);
+  const typeParams = `<S extends ${displayName}Select = ${displayName}Select>`;
+  const canRead = access.read !== 'denied';
+  const canCreate = access.create !== 'denied';
+  const canUpdate = access.update !== 'denied';
+  const canDelete = access.delete !== 'denied';
+  const hasMutations = canCreate || canUpdate || canDelete;
+
+  const keyEntries = [
+    `  all: ['${slug}'] as const,`,
+    `  lists: () => [...${keys}.all, 'list'] as const,`,
+    `  list: (options?: object) => [...${keys}.lists(), options ?? {}] as const,`,
+    `  everything: (options?: object) => [...${keys}.lists(), 'all', options ?? {}] as const,`,
+    hasStatus
+      ? `  published: (options?: object) => [...${keys}.lists(), 'published', options ?? {}] as const,`
+      : '',
+    hasNavigation
+      ? `  navigation: () => [...${keys}.lists(), 'navigation'] as const,`
+      : '',
+    `  details: () => [...${keys}.all, 'detail'] as const,`,
+    hasSlug
+      ? `  detail: (slug: string, draft = false) => [...${keys}.details(), slug, { draft }] as const,`
+      : '',
+    canRead
+      ? `  byID: (id: string, options?: object) => [...${keys}.details(), 'id', id, options ?? {}] as const,`
+      : '',
+  ].filter(Boolean);
+
+  const queryEntries = [
+    `  list: ${typeParams}(options?: ${displayName}QueryOptions<S>, request?: RequestOptions) =>
+    queryOptions({
+      queryKey: ${keys}.list(options),
+      queryFn: ({ signal }) => ${client}.get${pluralName}List(options, { ...request, signal }),
+    }),`,
+    `  everything: ${typeParams}(
+    options?: Omit<${displayName}QueryOptions<S>, 'page' | 'limit' | 'pagination'> & PaginationOptions,
+    request?: RequestOptions
+  ) =>
+    queryOptions({
+      queryKey: ${keys}.everything(options),
+      queryFn: ({ signal }) => ${client}.getAll${pluralName}(options, { ...request, signal }),
+    }),`,
+    hasStatus
+      ? `  published: ${typeParams}(options?: Omit<${displayName}QueryOptions<S>, 'where'>, request?: RequestOptions) =>
+    queryOptions({
+      queryKey: ${keys}.published(options),
+      queryFn: ({ signal }) => ${client}.getPublished${pluralName}(options, { ...request, signal }),
+    }),`
+      : '',
+    hasNavigation
+      ? `  navigation: (request?: RequestOptions) =>
+    queryOptions({
+      queryKey: ${keys}.navigation(),
+      queryFn: ({ signal }) => ${client}.get${pluralName}ForNavigation({ ...request, signal }),
+    }),`
+      : '',
+    hasSlug
+      ? `  detail: (slug: string, draft = false, request?: RequestOptions) =>
+    queryOptions({
+      queryKey: ${keys}.detail(slug, draft),
+      queryFn: ({ signal }) => ${client}.get${singular}(slug, draft, { ...request, signal }),
+    }),`
+      : '',
+    canRead
+      ? `  byID: ${typeParams}(
+    id: string,
+    options?: Pick<${displayName}QueryOptions<S>, ${DOC_QUERY_OPTIONS}>,
+    request?: RequestOptions
+  ) =>
+    queryOptions({
+      queryKey: ${keys}.byID(id, options),
+      queryFn: ({ signal }) => ${client}.findByID(id, options, { ...request, signal }),
+    }),`
+      : '',
+  ].filter(Boolean);
+
+  const hooks = [
+    `export function use${pluralName}List${typeParams}(options?: ${displayName}QueryOptions<S>, request?: RequestOptions) {
+  return useQuery(${queries}.list(options, request));
+}`,
+    `export function useAll${pluralName}${typeParams}(
+  options?: Omit<${displayName}QueryOptions<S>, 'page' | 'limit' | 'pagination'> & PaginationOptions,
+  request?: RequestOptions
+) {
+  return useQuery(${queries}.everything(options, request));
+}`,
+    hasStatus
+      ? `export function usePublished${pluralName}${typeParams}(options?: Omit<${displayName}QueryOptions<S>, 'where'>, request?: RequestOptions) {
+  return useQuery(${queries}.published(options, request));
+}`
+      : '',
+    hasNavigation
+      ? `export function use${pluralName}ForNavigation(request?: RequestOptions) {
+  return useQuery(${queries}.navigation(request));
+}`
+      : '',
+    hasSlug
+      ? `export function use${singular}(slug: string, draft = false, request?: RequestOptions) {
+  return useQuery(${queries}.detail(slug, draft, request));
+}`
+      : '',
+    canRead
+      ? `export function use${singular}ByID${typeParams}(
+  id: string,
+  options?: Pick<${displayName}QueryOptions<S>, ${DOC_QUERY_OPTIONS}>,
+  request?: RequestOptions
+) {
+  return useQuery(${queries}.byID(id, options, request));
+}`
+      : '',
+    // New documents only change lists; updates and deletes may change a
+    // slug, so they refetch the whole collection
+    canCreate
+      ? `export function useCreate${singular}() {
+  const client = usePayloadClient().${camel};
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (data: ${displayName}Input) => ${client}.create(data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ${keys}.lists() }),
+  });
+}`
+      : '',
+    canUpdate
+      ? `export function useUpdate${singular}() {
+  const client = usePayloadClient().${camel};
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: ${displayName}Update }) => ${client}.updateByID(id, data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ${keys}.all }),
+  });
+}`
+      : '',
+    canDelete
+      ? `export function useDelete${singular}() {
+  const client = usePayloadClient().${camel};
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: string) => ${client}.deleteByID(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ${keys}.all }),
+  });
+}`
+      : '',
+  ].filter(Boolean);
+
+  const reactQueryImports = [
+    'queryOptions',
+    hasMutations ? 'useMutation' : '',
+    'useQuery',
+    hasMutations ? 'useQueryClient' : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+  const typeImports = [
+    canCreate ? `${displayName}Input` : '',
+    `${displayName}QueryOptions`,
+    `${displayName}Select`,
+    canUpdate ? `${displayName}Update` : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return `/**
+ * ${displayName} TanStack Query keys, query options and hooks
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
+ */
+
+import { ${reactQueryImports} } from '@tanstack/react-query';
+import type { ${displayName}Client } from '../clients';
+import type { PaginationOptions, RequestOptions } from '../clients/base';
+import type { ${typeImports} } from '../types';
+import { usePayloadClient } from './client';
+
+// Query keys, nested so invalidating a prefix covers the queries below it
+export const ${keys} = {
+${keyEntries.join('\n')}
+};
+
+/**
+ * Query options of a ${displayName} client, for loaders, prefetching and \`useQuery\`
+ */
+export function create${pluralName}Queries(client: ${displayName}Client) {
+  return {
+${queryEntries.join('\n').replace(/^(?=.)/gm, '  ')}
+  };
+}
+
+// Query options of the client from PayloadClientProvider
+function use${pluralName}Queries() {
+  return create${pluralName}Queries(usePayloadClient().${camel});
+}
+
+${hooks.join('\n\n')}
+`;
+}
+
+/**
+ * Generate the React context that query hooks read their client from
+ */
+export function generateQueryClientContextTemplate(): string {
+  return `/**
+ * Payload client context of the query hooks
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
+ */
+
+import { createContext, useContext } from 'react';
+import type { PayloadClient } from '../clients';
+
+const PayloadClientContext = createContext<PayloadClient | null>(null);
+
+// Provides the client of the query hooks, e.g.
+// <PayloadClientProvider value={createPayloadClient(config)}>
+export const PayloadClientProvider = PayloadClientContext.Provider;
+
+export function usePayloadClient(): PayloadClient {
+  const client = useContext(PayloadClientContext);
+  if (!client) {
+    throw new Error('Payload query hooks must be used inside a PayloadClientProvider');
+  }
+  return client;
+}
+`;
+}
+
+/**
+ * Generate the index of the TanStack Query files, with a `queryKeys`
+ * object holding every collection's keys
+ */
+export function generateQueryHooksIndexTemplate(
+  collections: Pick<CollectionMetadata, 'slug'>[]
+): string {
+  const keys = collections.map(({ slug }) => ({
+    slug,
+    camel: toCamelCase(slug),
+  }));
+
+  return `/**
+ * TanStack Query keys, query options and hooks
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
+ */
+
+${keys.map(({ slug, camel }) => `import { ${camel}Keys } from './${slug}';`).join('\n')}
+
+export * from './client';
+${keys.map(({ slug }) => `export * from './${slug}';`).join('\n')}
+
+export const queryKeys = {
+${keys.map(({ camel }) => `  ${camel}: ${camel}Keys,`).join('\n')}
+};
+`;
+}
+
+/**
+ * Generate the `usePayloadClient` composable shared by the Nuxt composables
+ *
+ * The client is provided on the Nuxt app as `$payload`, so each request gets
+ * its own client on the server. Apps can provide their own from a plugin;
+ * otherwise one is created from `runtimeConfig.public.payloadBaseUrl`.
+ */
+export function generateNuxtClientComposableTemplate(): string {
+  return `/**
+ * Payload client of the Nuxt composables
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
+ */
+
+import { useNuxtApp, useRuntimeConfig } from '#imports';
+import { createPayloadClient } from '../clients';
+import type { PayloadClient } from '../clients';
+
+export function usePayloadClient(): PayloadClient {
+  const nuxtApp = useNuxtApp();
+  if (!nuxtApp.$payload) {
+    const { payloadBaseUrl } = useRuntimeConfig().public;
+    if (!payloadBaseUrl) {
+      throw new Error(
+        'Payload client is not configured: set runtimeConfig.public.payloadBaseUrl or provide $payload from a plugin'
+      );
+    }
+    nuxtApp.provide('payload', createPayloadClient({ baseUrl: String(payloadBaseUrl) }));
+  }
+  return nuxtApp.$payload as PayloadClient;
+}
+`;
+}
+
+/**
+ * Generate Nuxt composables for a collection, wrapping the Nuxt app's client
+ * in `useAsyncData`
+ *
+ * Keys start with the collection slug, like the client cache tags, and are
+ * getters, so a composable refetches when its arguments change.
+ */
+export function generateNuxtComposablesTemplate(
+  collection: CollectionMetadata
+): string {
+  const {
+    slug,
+    displayName,
+    pluralName,
+    hasSlug,
+    hasStatus,
+    hasNavigation,
+    access,
+  } = collection;
+  const client = 'client';
+  const getClient = `const client = usePayloadClient().${toCamelCase(slug)};`;
+  const singular = singularize(displayName);
+  const typeParams = `<S extends ${displayName}Select = ${displayName}Select>`;
+  const name = pluralName.toLowerCase();
+
+  const composables = [
+    `/**
+ * Fetch a page of ${name}, with pagination
+ */
+export function use${pluralName}${typeParams}(options?: MaybeRefOrGetter<${displayName}QueryOptions<S> | undefined>, request?: RequestOptions) {
+  ${getClient}
+  return useAsyncData(
+    () => \`${slug}:list:\${JSON.stringify(toValue(options) ?? {})}\`,
+    () => ${client}.get${pluralName}List(toValue(options), request)
+  );
+}`,
+    hasStatus
+      ? `/**
+ * Fetch published ${name}
+ */
+export function usePublished${pluralName}${typeParams}(options?: MaybeRefOrGetter<Omit<${displayName}QueryOptions<S>, 'where'> | undefined>, request?: RequestOptions) {
+  ${getClient}
+  return useAsyncData(
+    () => \`${slug}:published:\${JSON.stringify(toValue(options) ?? {})}\`,
+    () => ${client}.getPublished${pluralName}(toValue(options), request)
+  );
+}`
+      : '',
+    hasNavigation
+      ? `/**
+ * Fetch ${name} for the navigation menu
+ */
+export function use${pluralName}ForNavigation(request?: RequestOptions) {
+  ${getClient}
+  return useAsyncData('${slug}:navigation', () => ${client}.get${pluralName}ForNavigation(request));
+}`
+      : '',
+    hasSlug
+      ? `/**
+ * Fetch a ${displayName.toLowerCase()} by slug
+ */
+export function use${singular}BySlug(slug: MaybeRefOrGetter<string>, draft = false, request?: RequestOptions) {
+  ${getClient}
+  return useAsyncData(
+    () => \`${slug}:slug:\${toValue(slug)}\${draft ? ':draft' : ''}\`,
+    () => ${client}.get${singular}(toValue(slug), draft, request)
+  );
+}`
+      : '',
+    access.read !== 'denied'
+      ? `/**
+ * Fetch a ${displayName.toLowerCase()} by ID
+ */
+export function use${singular}ByID${typeParams}(
+  id: MaybeRefOrGetter<string>,
+  options?: Pick<${displayName}QueryOptions<S>, ${DOC_QUERY_OPTIONS}>,
+  request?: RequestOptions
+) {
+  ${getClient}
+  return useAsyncData(
+    () => \`${slug}:id:\${toValue(id)}:\${JSON.stringify(options ?? {})}\`,
+    () => ${client}.findByID(toValue(id), options, request)
+  );
+}`
+      : '',
+  ].filter(Boolean);
+
+  return `/**
+ * ${displayName} Nuxt composables
+ * Generated from Payload CMS collections
+ *
+ * DO NOT EDIT MANUALLY - Run 'pnpm generate:types' to regenerate
+ */
+
+import { useAsyncData } from '#imports';
+import { toValue } from 'vue';
+import type { MaybeRefOrGetter } from 'vue';
+import type { RequestOptions } from '../clients/base';
+import type { ${displayName}QueryOptions, ${displayName}Select } from '../types';
+import { usePayloadClient } from './usePayloadClient';
+
+${composables.join('\n\n')}
+`;
+}
+
+/**
+ * Sections of a generated route module, in output order
+ */
+export interface RouteSections {
+  imports: string;
+  meta: string;
+  loader: string;
+  component: string;
+}
+
+export interface RouteOptions {
+  // Generate the `$lang` variant, which reads the locale from the URL
+  localized?: boolean;
+  // Status values, for pages that only list published documents
+  statusValues?: StatusValues;
+}
+
+/**
+ * Generate React Router route template
+ */
+export function generateRouteTemplate(
+  collection: CollectionMetadata,
+  type: 'index' | 'detail',
+  options: RouteOptions = {}
+): string {
+  const sections = generateRouteSections(collection, type, options);
+  return [sections.imports, sections.meta, sections.loader, sections.component]
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Generate the sections of a React Router route, so templates can reuse them
+ *
+ * Localized routes live under `$lang`: loaders return 404 for unknown
+ * locales, fetch in the URL's locale and links keep the locale prefix.
+ */
+export function generateRouteSections(
+  collection: CollectionMetadata,
+  type: 'index' | 'detail',
+  options: RouteOptions = {}
+): RouteSections {
+  const { localized = false } = options;
+  const {
+    slug,
+    displayName,
+    pluralName,
+    hasStatus,
+    hasFeaturedImage,
+    hasExcerpt,
+    hasSEO,
+    fieldMappings,
+  } = collection;
+  const { slugField, featuredImageField, excerptField, seoField } =
+    fieldMappings;
+  const item = slug.slice(0, -1);
+
+  const client = `getPayloadClient().${toCamelCase(slug)}`;
+  const localeQuery = localized ? '{ locale: params.lang }' : '';
+  const listLoader = hasStatus
+    ? `await ${client}.getPublished${pluralName}(${localeQuery})`
+    : `(await ${client}.get${pluralName}List(${localeQuery})).docs`;
+  const clientImport = `import { getPayloadClient } from '~/lib/payloadClient';`;
+  const typeImport = localized
+    ? `import { isLocale } from '~/lib/types';
+import type { ${displayName}, Locale } from '~/lib/types';`
+    : `import type { ${displayName} } from '~/lib/types';`;
+  const localeCheck = localized
+    ? `
+  if (!isLocale(params.lang)) {
+    throw new Response('Not Found', { status: 404 });
+  }
+`
+    : '';
+  const linkPrefix = localized ? '/${lang}' : '';
+  const description = [
+    hasExcerpt ? `${item}.${excerptField}` : '',
+    hasSEO ? `${item}.${seoField}?.description` : '',
+    "'Read more'",
+  ]
+    .filter(Boolean)
+    .join(' || ');
+
+  if (type === 'index') {
+    return {
+      imports: `import type { MetaFunction } from 'react-router';
+${clientImport}
+${typeImport}`,
+      meta: `export const meta: MetaFunction = () => {
+  return [
+    { title: \`${pluralName} - My App\` },
+    { name: 'description', content: \`Browse all ${pluralName.toLowerCase()}\` },
+  ];
+};`,
+      loader: `export async function loader(${localized ? '{ params }: { params: { lang?: string } }' : ''}) {${localeCheck}
+  try {
+    const ${slug} = ${listLoader};
+    return { ${slug}${localized ? ', lang: params.lang' : ''} };
+  } catch (error) {
+    console.error(\`Error loading ${pluralName.toLowerCase()}:\`, error);
+    return { ${slug}: []${localized ? ', lang: params.lang' : ''} };
+  }
+}`,
+      component: `export default function ${pluralName}Index({ loaderData }: { loaderData: { ${slug}: ${displayName}[]${localized ? '; lang: Locale' : ''} } }) {
+  const { ${slug}${localized ? ', lang' : ''} } = loaderData;
+
+  return (
+    <div className='max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8'>
+      <h1 className='text-3xl font-bold text-gray-900 mb-8'>${pluralName}</h1>
+
+      {${slug}.length === 0 ? (
+        <p className='text-gray-600'>No ${pluralName.toLowerCase()} found.</p>
+      ) : (
+        <div className='grid gap-6 md:grid-cols-2 lg:grid-cols-3'>
+          {${slug}.map((${item}) => (
+            <div key={${item}.id} className='bg-white rounded-lg shadow-md overflow-hidden'>
+${
+  hasFeaturedImage
+    ? `              {typeof ${item}.${featuredImageField} === 'object' && (
                 <img
-                  src={${slug.slice(0, -1)}.featuredImage.url}
-                  alt={${slug.slice(0, -1)}.featuredImage.alt || ${slug.slice(0, -1)}.title}
+                  src={${item}.${featuredImageField}.url}
+                  alt={${item}.${featuredImageField}.alt || ${item}.title}
                   className='w-full h-48 object-cover'
                 />
               )}
-              <div className='p-6'>
+`
+    : ''
+}              <div className='p-6'>
                 <h2 className='text-xl font-semibold text-gray-900 mb-2'>
-                  <a href={\`/${slug}/\${${slug.slice(0, -1)}.slug}\`} className='hover:text-blue-600'>
-                    {${slug.slice(0, -1)}.title}
+                  <a href={\`${linkPrefix}/${slug}/\${${item}.${slugField}}\`} className='hover:text-blue-600'>
+                    {${item}.title}
                   </a>
                 </h2>
-                {${slug.slice(0, -1)}.excerpt && (
-                  <p className='text-gray-600 mb-4'>{${slug.slice(0, -1)}.excerpt}</p>
+${
+  hasExcerpt
+    ? `                {${item}.${excerptField} && (
+                  <p className='text-gray-600 mb-4'>{${item}.${excerptField}}</p>
                 )}
-                <div className='text-sm text-gray-500'>
-                  {new Date(${slug.slice(0, -1)}.publishedDate || ${slug.slice(0, -1)}.createdAt).toLocaleDateString()}
+`
+    : ''
+}                <div className='text-sm text-gray-500'>
+                  {new Date(${item}.publishedDate || ${item}.createdAt).toLocaleDateString()}
                 </div>
               </div>
             </div>
@@ -314,77 +2585,632 @@ export default function ${pluralName}Index({ loaderData }: { loaderData: { ${slu
       )}
     </div>
   );
-}`;
+}`,
+    };
   }
 
-  if (type === 'detail') {
-    return `import type { MetaFunction } from 'react-router';
-import { payloadClient } from '~/lib/payloadClient';
-import type { ${displayName} } from '~/lib/types';
-
-export const meta: MetaFunction<typeof loader> = ({ loaderData }) => {
-  if (!loaderData || !(loaderData as any)?.${slug.slice(0, -1)}) {
+  return {
+    imports: `import type { MetaFunction } from 'react-router';
+import { isNotFoundError } from '~/lib/clients';
+${clientImport}
+${localized ? typeImport.replace(', Locale', '') : typeImport}`,
+    meta: `export const meta: MetaFunction<typeof loader> = ({ loaderData }) => {
+  if (!loaderData || !(loaderData as any)?.${item}) {
     return [
       { title: 'Not Found' },
       { name: 'description', content: '${displayName} not found' },
     ];
   }
 
-  const ${slug.slice(0, -1)} = (loaderData as any).${slug.slice(0, -1)};
+  const ${item} = (loaderData as any).${item};
   return [
-    { title: \`\${${slug.slice(0, -1)}.title} - My App\` },
-    { name: 'description', content: ${slug.slice(0, -1)}.excerpt || ${slug.slice(0, -1)}.seo?.description || 'Read more' },
+    { title: \`\${${item}.title} - My App\` },
+    { name: 'description', content: ${description} },
   ];
-};
-
-export async function loader({ params }: { params: { slug: string } }) {
+};`,
+    loader: `export async function loader({ params }: { params: { slug: string${localized ? '; lang?: string' : ''} } }) {${localeCheck}
   try {
-    const ${slug.slice(0, -1)} = await payloadClient.get${singularize(displayName)}(params.slug);
-    return { ${slug.slice(0, -1)} };
+    const ${item} = await ${client}.get${singularize(displayName)}(params.slug${localized ? ', false, { locale: params.lang }' : ''});
+    return { ${item} };
   } catch (error) {
+    if (isNotFoundError(error)) {
+      throw new Response('Not Found', { status: 404 });
+    }
     console.error(\`Error loading ${displayName.toLowerCase()}:\`, error);
-    throw new Response('Not Found', { status: 404 });
+    throw error;
   }
-}
-
-export default function ${displayName}Detail({ loaderData }: { loaderData: { ${slug.slice(0, -1)}: ${displayName} } }) {
-  const { ${slug.slice(0, -1)} } = loaderData;
+}`,
+    component: `export default function ${displayName}Detail({ loaderData }: { loaderData: { ${item}: ${displayName} } }) {
+  const { ${item} } = loaderData;
 
   return (
     <div className='max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8'>
       <article className='prose prose-lg max-w-none'>
-        {${slug.slice(0, -1)}.featuredImage && (
+${
+  hasFeaturedImage
+    ? `        {typeof ${item}.${featuredImageField} === 'object' && (
           <img
-            src={${slug.slice(0, -1)}.featuredImage.url}
-            alt={${slug.slice(0, -1)}.featuredImage.alt || ${slug.slice(0, -1)}.title}
+            src={${item}.${featuredImageField}.url}
+            alt={${item}.${featuredImageField}.alt || ${item}.title}
             className='w-full h-64 object-cover rounded-lg mb-8'
           />
         )}
 
-        <h1 className='text-4xl font-bold text-gray-900 mb-4'>{${slug.slice(0, -1)}.title}</h1>
+`
+    : ''
+}        <h1 className='text-4xl font-bold text-gray-900 mb-4'>{${item}.title}</h1>
 
-        {${slug.slice(0, -1)}.excerpt && (
-          <p className='text-xl text-gray-600 mb-8'>{${slug.slice(0, -1)}.excerpt}</p>
+${
+  hasExcerpt
+    ? `        {${item}.${excerptField} && (
+          <p className='text-xl text-gray-600 mb-8'>{${item}.${excerptField}}</p>
         )}
 
-        <div className='prose prose-lg max-w-none'>
+`
+    : ''
+}        <div className='prose prose-lg max-w-none'>
           {/* Rich text content would be rendered here */}
           <div dangerouslySetInnerHTML={{ __html: 'Rich text content rendering needed' }} />
         </div>
 
         <div className='mt-8 pt-8 border-t border-gray-200'>
           <div className='text-sm text-gray-500'>
-            Published: {new Date(${slug.slice(0, -1)}.publishedDate || ${slug.slice(0, -1)}.createdAt).toLocaleDateString()}
+            Published: {new Date(${item}.publishedDate || ${item}.createdAt).toLocaleDateString()}
           </div>
         </div>
       </article>
     </div>
   );
-}`;
+}`,
+  };
+}
+
+/**
+ * Expressions the page targets share, for a document in the variable `item`
+ */
+function getPageExpressions(
+  collection: CollectionMetadata,
+  item: string,
+  statusValues?: StatusValues
+): {
+  label: string;
+  title: string;
+  description: string;
+  date: string;
+  where: string;
+} {
+  const { hasStatus, hasExcerpt, hasSEO, fieldMappings, titleField } =
+    collection;
+  const { slugField, excerptField, seoField } = fieldMappings;
+  const published = getPublishedFilter(collection, statusValues);
+  // Collections without a title field are labelled by their slug
+  const label = `${item}.${titleField ?? slugField}`;
+
+  return {
+    label,
+    title: hasSEO ? `${item}.${seoField}?.title || ${label}` : label,
+    description: [
+      hasExcerpt ? `${item}.${excerptField}` : '',
+      hasSEO ? `${item}.${seoField}?.description` : '',
+      "'Read more'",
+    ]
+      .filter(Boolean)
+      .join(' || '),
+    date: collection.fields.some(({ name }) => name === 'publishedDate')
+      ? `${item}.publishedDate || ${item}.createdAt`
+      : `${item}.createdAt`,
+    // Query option limiting `getAll*` to published documents
+    where: hasStatus
+      ? `where: { ${published.field}: { equals: '${published.value}' } }`
+      : '',
+  };
+}
+
+/**
+ * Generate the sections of a Next.js App Router page, in the same slots as
+ * React Router routes so section overrides apply to both
+ *
+ * Pages are server components. Their fetches are tagged with the client
+ * cache tags, so `revalidateTag(getCacheTag(slug))` refreshes them.
+ */
+export function generateNextRouteSections(
+  collection: CollectionMetadata,
+  type: 'index' | 'detail',
+  options: RouteOptions = {}
+): RouteSections {
+  const {
+    slug,
+    displayName,
+    pluralName,
+    hasStatus,
+    hasFeaturedImage,
+    hasExcerpt,
+    fieldMappings,
+  } = collection;
+  const { slugField, featuredImageField, excerptField } = fieldMappings;
+  const { list, item } = getDocumentVariables(collection);
+  const client = `getPayloadClient().${toCamelCase(slug)}`;
+  const { label, title, description, date, where } = getPageExpressions(
+    collection,
+    item,
+    options.statusValues
+  );
+
+  // The default ttl of the client cache, in seconds
+  const revalidate = `export const revalidate = 60;
+
+const cacheOptions = { next: { revalidate, tags: [getCacheTag('${slug}')] } };`;
+
+  if (type === 'index') {
+    const listLoader = hasStatus
+      ? `await ${client}.getPublished${pluralName}({}, cacheOptions)`
+      : `(await ${client}.get${pluralName}List({}, cacheOptions)).docs`;
+
+    return {
+      imports: `import type { Metadata } from 'next';
+import Link from 'next/link';
+import { getCacheTag } from '~/lib/clients';
+import { getPayloadClient } from '~/lib/payloadClient';`,
+      meta: `export const metadata: Metadata = {
+  title: '${pluralName} - My App',
+  description: 'Browse all ${pluralName.toLowerCase()}',
+};`,
+      loader: revalidate,
+      component: `export default async function ${pluralName}Page() {
+  const ${list} = ${listLoader};
+
+  return (
+    <div className='max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8'>
+      <h1 className='text-3xl font-bold text-gray-900 mb-8'>${pluralName}</h1>
+
+      {${list}.length === 0 ? (
+        <p className='text-gray-600'>No ${pluralName.toLowerCase()} found.</p>
+      ) : (
+        <div className='grid gap-6 md:grid-cols-2 lg:grid-cols-3'>
+          {${list}.map((${item}) => (
+            <div key={${item}.id} className='bg-white rounded-lg shadow-md overflow-hidden'>
+${
+  hasFeaturedImage
+    ? `              {typeof ${item}.${featuredImageField} === 'object' && (
+                <img
+                  src={${item}.${featuredImageField}.url}
+                  alt={${item}.${featuredImageField}.alt || ${label}}
+                  className='w-full h-48 object-cover'
+                />
+              )}
+`
+    : ''
+}              <div className='p-6'>
+                <h2 className='text-xl font-semibold text-gray-900 mb-2'>
+                  <Link href={\`/${slug}/\${${item}.${slugField}}\`} className='hover:text-blue-600'>
+                    {${label}}
+                  </Link>
+                </h2>
+${
+  hasExcerpt
+    ? `                {${item}.${excerptField} && (
+                  <p className='text-gray-600 mb-4'>{${item}.${excerptField}}</p>
+                )}
+`
+    : ''
+}                <div className='text-sm text-gray-500'>
+                  {new Date(${date}).toLocaleDateString()}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}`,
+    };
+  }
+
+  return {
+    imports: `import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { cache } from 'react';
+import { getCacheTag, isNotFoundError } from '~/lib/clients';
+import { getPayloadClient } from '~/lib/payloadClient';`,
+    meta: `export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const ${item} = await get${singularize(displayName)}((await params).slug);
+
+  return {
+    title: \`\${${title}} - My App\`,
+    description: ${description},
+  };
+}`,
+    loader: `${revalidate}
+
+type PageProps = { params: Promise<{ slug: string }> };
+
+export async function generateStaticParams() {
+  const ${list} = await ${client}.getAll${pluralName}({ ${where ? `${where}, ` : ''}select: { ${slugField}: true } }, cacheOptions);
+  return ${list}.map((${item}) => ({ slug: ${item}.${slugField} }));
+}
+
+// Shared by generateMetadata and the page within one render
+const get${singularize(displayName)} = cache(async (slug: string) => {
+  try {
+    return await ${client}.get${singularize(displayName)}(slug, false, cacheOptions);
+  } catch (error) {
+    if (isNotFoundError(error)) notFound();
+    throw error;
+  }
+});`,
+    component: `export default async function ${displayName}Page({ params }: PageProps) {
+  const ${item} = await get${singularize(displayName)}((await params).slug);
+
+  return (
+    <div className='max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8'>
+      <article className='prose prose-lg max-w-none'>
+${
+  hasFeaturedImage
+    ? `        {typeof ${item}.${featuredImageField} === 'object' && (
+          <img
+            src={${item}.${featuredImageField}.url}
+            alt={${item}.${featuredImageField}.alt || ${label}}
+            className='w-full h-64 object-cover rounded-lg mb-8'
+          />
+        )}
+
+`
+    : ''
+}        <h1 className='text-4xl font-bold text-gray-900 mb-4'>{${label}}</h1>
+
+${
+  hasExcerpt
+    ? `        {${item}.${excerptField} && (
+          <p className='text-xl text-gray-600 mb-8'>{${item}.${excerptField}}</p>
+        )}
+
+`
+    : ''
+}        <div className='mt-8 pt-8 border-t border-gray-200'>
+          <div className='text-sm text-gray-500'>
+            Published: {new Date(${date}).toLocaleDateString()}
+          </div>
+        </div>
+      </article>
+    </div>
+  );
+}`,
+  };
+}
+
+/**
+ * A generated route file, relative to the output directory
+ */
+export interface RouteFile {
+  path: string;
+  content: string;
+}
+
+/**
+ * Generate the route files of one collection for a framework. Route
+ * targets are only called for collections with a slug field.
+ */
+export type RouteTarget = (
+  collection: CollectionMetadata,
+  options: RouteOptions
+) => RouteFile[];
+
+/**
+ * Generate SvelteKit routes: `+page.server.ts` load functions and
+ * `+page.svelte` views under `routes/<slug>` and `routes/<slug>/[slug]`
+ */
+export function generateSvelteKitRoutes(
+  collection: CollectionMetadata
+): RouteFile[] {
+  const {
+    slug,
+    displayName,
+    pluralName,
+    hasStatus,
+    hasFeaturedImage,
+    hasExcerpt,
+    fieldMappings,
+  } = collection;
+  const { slugField, featuredImageField, excerptField } = fieldMappings;
+  const { list, item } = getDocumentVariables(collection);
+  const client = `getPayloadClient().${toCamelCase(slug)}`;
+  const { label, date } = getPageExpressions(collection, item);
+  const detail = getPageExpressions(collection, `data.${item}`);
+  const listLoader = hasStatus
+    ? `await ${client}.getPublished${pluralName}()`
+    : `(await ${client}.get${pluralName}List()).docs`;
+
+  return [
+    {
+      path: `routes/${slug}/+page.server.ts`,
+      content: `import { getPayloadClient } from '$lib/payloadClient';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async () => {
+  const ${list} = ${listLoader};
+  return { ${list} };
+};
+`,
+    },
+    {
+      path: `routes/${slug}/+page.svelte`,
+      content: `<script lang="ts">
+  import type { PageData } from './$types';
+
+  let { data }: { data: PageData } = $props();
+</script>
+
+<svelte:head>
+  <title>${pluralName} - My App</title>
+  <meta name="description" content="Browse all ${pluralName.toLowerCase()}" />
+</svelte:head>
+
+<div class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+  <h1 class="text-3xl font-bold text-gray-900 mb-8">${pluralName}</h1>
+
+  {#if data.${list}.length === 0}
+    <p class="text-gray-600">No ${pluralName.toLowerCase()} found.</p>
+  {:else}
+    <div class="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+      {#each data.${list} as ${item} (${item}.id)}
+        <div class="bg-white rounded-lg shadow-md overflow-hidden">
+${
+  hasFeaturedImage
+    ? `          {#if typeof ${item}.${featuredImageField} === 'object'}
+            <img
+              src={${item}.${featuredImageField}.url}
+              alt={${item}.${featuredImageField}.alt || ${label}}
+              class="w-full h-48 object-cover"
+            />
+          {/if}
+`
+    : ''
+}          <div class="p-6">
+            <h2 class="text-xl font-semibold text-gray-900 mb-2">
+              <a href="/${slug}/{${item}.${slugField}}" class="hover:text-blue-600">{${label}}</a>
+            </h2>
+${
+  hasExcerpt
+    ? `            {#if ${item}.${excerptField}}
+              <p class="text-gray-600 mb-4">{${item}.${excerptField}}</p>
+            {/if}
+`
+    : ''
+}            <div class="text-sm text-gray-500">
+              {new Date(${date}).toLocaleDateString()}
+            </div>
+          </div>
+        </div>
+      {/each}
+    </div>
+  {/if}
+</div>
+`,
+    },
+    {
+      path: `routes/${slug}/[slug]/+page.server.ts`,
+      content: `import { error } from '@sveltejs/kit';
+import { isNotFoundError } from '$lib/clients';
+import { getPayloadClient } from '$lib/payloadClient';
+import type { PageServerLoad } from './$types';
+
+export const load: PageServerLoad = async ({ params }) => {
+  try {
+    const ${item} = await ${client}.get${singularize(displayName)}(params.slug);
+    return { ${item} };
+  } catch (err) {
+    if (isNotFoundError(err)) error(404, '${displayName} not found');
+    throw err;
   }
+};
+`,
+    },
+    {
+      path: `routes/${slug}/[slug]/+page.svelte`,
+      content: `<script lang="ts">
+  import type { PageData } from './$types';
+
+  let { data }: { data: PageData } = $props();
+</script>
+
+<svelte:head>
+  <title>{${detail.title}} - My App</title>
+  <meta name="description" content={${detail.description}} />
+</svelte:head>
+
+<div class="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+  <article class="prose prose-lg max-w-none">
+${
+  hasFeaturedImage
+    ? `    {#if typeof data.${item}.${featuredImageField} === 'object'}
+      <img
+        src={data.${item}.${featuredImageField}.url}
+        alt={data.${item}.${featuredImageField}.alt || ${detail.label}}
+        class="w-full h-64 object-cover rounded-lg mb-8"
+      />
+    {/if}
+
+`
+    : ''
+}    <h1 class="text-4xl font-bold text-gray-900 mb-4">{${detail.label}}</h1>
+${
+  hasExcerpt
+    ? `
+    {#if data.${item}.${excerptField}}
+      <p class="text-xl text-gray-600 mb-8">{data.${item}.${excerptField}}</p>
+    {/if}
+`
+    : ''
+}
+    <div class="mt-8 pt-8 border-t border-gray-200">
+      <div class="text-sm text-gray-500">
+        Published: {new Date(${detail.date}).toLocaleDateString()}
+      </div>
+    </div>
+  </article>
+</div>
+`,
+    },
+  ];
+}
+
+/**
+ * Generate Astro pages under `pages/<slug>`. The detail page builds one
+ * page per document with `getStaticPaths`.
+ */
+export function generateAstroRoutes(
+  collection: CollectionMetadata,
+  options: RouteOptions = {}
+): RouteFile[] {
+  const {
+    slug,
+    pluralName,
+    hasStatus,
+    hasFeaturedImage,
+    hasExcerpt,
+    fieldMappings,
+  } = collection;
+  const { slugField, featuredImageField, excerptField } = fieldMappings;
+  const { list, item } = getDocumentVariables(collection);
+  const client = `getPayloadClient().${toCamelCase(slug)}`;
+  const { label, title, description, date, where } = getPageExpressions(
+    collection,
+    item,
+    options.statusValues
+  );
+  const listLoader = hasStatus
+    ? `await ${client}.getPublished${pluralName}()`
+    : `(await ${client}.get${pluralName}List()).docs`;
 
-  return '';
+  return [
+    {
+      path: `pages/${slug}/index.astro`,
+      content: `---
+import { getPayloadClient } from '~/lib/payloadClient';
+
+const ${list} = ${listLoader};
+---
+
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${pluralName} - My App</title>
+    <meta name="description" content="Browse all ${pluralName.toLowerCase()}" />
+  </head>
+  <body>
+    <div class="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <h1 class="text-3xl font-bold text-gray-900 mb-8">${pluralName}</h1>
+
+      {${list}.length === 0 ? (
+        <p class="text-gray-600">No ${pluralName.toLowerCase()} found.</p>
+      ) : (
+        <div class="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+          {${list}.map((${item}) => (
+            <div class="bg-white rounded-lg shadow-md overflow-hidden">
+${
+  hasFeaturedImage
+    ? `              {typeof ${item}.${featuredImageField} === 'object' && (
+                <img
+                  src={${item}.${featuredImageField}.url}
+                  alt={${item}.${featuredImageField}.alt || ${label}}
+                  class="w-full h-48 object-cover"
+                />
+              )}
+`
+    : ''
+}              <div class="p-6">
+                <h2 class="text-xl font-semibold text-gray-900 mb-2">
+                  <a href={\`/${slug}/\${${item}.${slugField}}\`} class="hover:text-blue-600">{${label}}</a>
+                </h2>
+${
+  hasExcerpt
+    ? `                {${item}.${excerptField} && (
+                  <p class="text-gray-600 mb-4">{${item}.${excerptField}}</p>
+                )}
+`
+    : ''
+}                <div class="text-sm text-gray-500">
+                  {new Date(${date}).toLocaleDateString()}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  </body>
+</html>
+`,
+    },
+    {
+      path: `pages/${slug}/[slug].astro`,
+      content: `---
+import type { GetStaticPaths, InferGetStaticPropsType } from 'astro';
+import { getPayloadClient } from '~/lib/payloadClient';
+
+export const getStaticPaths = (async () => {
+  const ${list} = await ${client}.getAll${pluralName}(${where ? `{ ${where} }` : ''});
+  return ${list}.map((${item}) => ({ params: { slug: ${item}.${slugField} }, props: { ${item} } }));
+}) satisfies GetStaticPaths;
+
+type Props = InferGetStaticPropsType<typeof getStaticPaths>;
+
+const { ${item} } = Astro.props;
+---
+
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>{${title}} - My App</title>
+    <meta name="description" content={${description}} />
+  </head>
+  <body>
+    <div class="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <article class="prose prose-lg max-w-none">
+${
+  hasFeaturedImage
+    ? `        {typeof ${item}.${featuredImageField} === 'object' && (
+          <img
+            src={${item}.${featuredImageField}.url}
+            alt={${item}.${featuredImageField}.alt || ${label}}
+            class="w-full h-64 object-cover rounded-lg mb-8"
+          />
+        )}
+
+`
+    : ''
+}        <h1 class="text-4xl font-bold text-gray-900 mb-4">{${label}}</h1>
+${
+  hasExcerpt
+    ? `
+        {${item}.${excerptField} && (
+          <p class="text-xl text-gray-600 mb-8">{${item}.${excerptField}}</p>
+        )}
+`
+    : ''
+}
+        <div class="mt-8 pt-8 border-t border-gray-200">
+          <div class="text-sm text-gray-500">
+            Published: {new Date(${date}).toLocaleDateString()}
+          </div>
+        </div>
+      </article>
+    </div>
+  </body>
+</html>
+`,
+    },
+  ];
 }
 
 // Import utility functions
-import { getTypeScriptType, singularize } from './fieldAnalyzer.js';
+import {
+  collectBlockFields,
+  generateFieldDefinitions,
+  generateNamedInterfaces,
+  getDocumentVariables,
+  getPublishedFilter,
+  singularize,
+  toCamelCase,
+} from './fieldAnalyzer.js';